@@ -0,0 +1,227 @@
+import * as vscode from 'vscode';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+
+type GitRemote = { name: string; fetchUrl?: string; pushUrl?: string };
+type GitRepository = {
+  rootUri: vscode.Uri;
+  state: { remotes: GitRemote[]; HEAD?: { commit?: string }; onDidChange: vscode.Event<void> };
+};
+type GitAPI = { git: { path: string }; repositories: GitRepository[] };
+type GitExtensionExports = { getAPI(version: number): GitAPI };
+
+/** Host and project path parsed from a git remote URL. */
+export interface RemoteLocation {
+  host: string;
+  owner: string; // may contain slashes for nested GitLab groups
+  repo: string;
+}
+
+/**
+ * Parses `git@host:owner/repo.git`, `ssh://git@host:22/owner/repo.git` and
+ * `https://[user@]host/owner/repo.git` style remotes.
+ */
+export function parseRemoteUrl(remoteUrl: string): RemoteLocation | undefined {
+  const trimmed = remoteUrl.trim();
+  const match =
+    trimmed.match(/^[a-z][a-z0-9+.-]*:\/\/(?:[^@/]+@)?([^/:]+)(?::\d+)?\/(.+)$/i) ??
+    trimmed.match(/^(?:[^@/]+@)?([^/:]+):(?!\/)(.+)$/);
+  if (!match) {
+    return undefined;
+  }
+  const segments = match[2].replace(/\/+$/, '').replace(/\.git$/, '').split('/').filter(Boolean);
+  if (segments.length < 2) {
+    return undefined;
+  }
+  return {
+    host: match[1].toLowerCase(),
+    owner: segments.slice(0, -1).join('/'),
+    repo: segments[segments.length - 1],
+  };
+}
+
+/** A remote of a local checkout, as found by the git extension or in `.git/config`. */
+export interface DiscoveredRemote {
+  rootPath: string;
+  remoteName: string;
+  url: string;
+}
+
+/** Lower-cased host name of a configured instance URL, or undefined if it is empty or invalid. */
+export function hostOf(url: string | undefined): string | undefined {
+  if (!url) {
+    return undefined;
+  }
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+export async function getRemoteUrl(): Promise<string> {
+  const remoteFromGitApi = (await getRemotesFromGitApi()).find((remote) => remote.remoteName === 'origin');
+  if (remoteFromGitApi) {
+    return remoteFromGitApi.url;
+  }
+
+  const remoteFromConfig = (await getRemotesFromGitConfig()).find((remote) => remote.remoteName === 'origin');
+  if (remoteFromConfig) {
+    return remoteFromConfig.url;
+  }
+
+  throw new Error(
+    'Unable to detect git remote URL. Open a local repository and ensure the "origin" remote is configured.'
+  );
+}
+
+/** Every repository/remote pair in the workspace, from the git extension and from `.git/config`. */
+export async function discoverRemotes(): Promise<DiscoveredRemote[]> {
+  const seen = new Set<string>();
+  const remotes: DiscoveredRemote[] = [];
+  for (const remote of [...(await getRemotesFromGitApi()), ...(await getRemotesFromGitConfig())]) {
+    const key = `${path.resolve(remote.rootPath)}\0${remote.remoteName}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      remotes.push(remote);
+    }
+  }
+  return remotes;
+}
+
+/**
+ * Root paths of the git checkouts in the workspace, remote or not: the git
+ * extension's repositories, else workspace folders with a `.git` entry.
+ */
+export async function listRepositoryRoots(): Promise<string[]> {
+  const api = await getGitApi();
+  if (api?.repositories.length) {
+    return api.repositories.map((repo) => repo.rootUri.fsPath);
+  }
+
+  const roots: string[] = [];
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    try {
+      await fs.stat(path.join(folder.uri.fsPath, '.git'));
+      roots.push(folder.uri.fsPath);
+    } catch {
+      // Not a git checkout
+    }
+  }
+  return roots;
+}
+
+/** Path of the git executable VS Code's git extension uses, else `git` from PATH. */
+export async function getGitPath(): Promise<string> {
+  return (await getGitApi())?.git.path ?? 'git';
+}
+
+/**
+ * Call `listener` with the new HEAD commit whenever the git extension sees the
+ * checkout at `rootPath` move (commit, pull, branch switch). Resolves to
+ * undefined when the git extension is unavailable or does not know the repository.
+ */
+export async function watchHead(
+  rootPath: string,
+  listener: (commit: string | undefined) => void
+): Promise<vscode.Disposable | undefined> {
+  const repository = (await getGitApi())?.repositories.find(
+    (repo) => path.resolve(repo.rootUri.fsPath) === path.resolve(rootPath)
+  );
+  if (!repository) {
+    return undefined;
+  }
+  let commit = repository.state.HEAD?.commit;
+  return repository.state.onDidChange(() => {
+    if (repository.state.HEAD?.commit !== commit) {
+      commit = repository.state.HEAD?.commit;
+      listener(commit);
+    }
+  });
+}
+
+async function getGitApi(): Promise<GitAPI | undefined> {
+  const extension = vscode.extensions.getExtension<GitExtensionExports>('vscode.git');
+  if (!extension) {
+    return undefined;
+  }
+
+  let gitExports: GitExtensionExports | undefined;
+  try {
+    gitExports = extension.isActive ? extension.exports : await extension.activate();
+  } catch {
+    return undefined;
+  }
+
+  if (!gitExports || typeof gitExports.getAPI !== 'function') {
+    return undefined;
+  }
+  return gitExports.getAPI(1);
+}
+
+async function getRemotesFromGitApi(): Promise<DiscoveredRemote[]> {
+  const api = await getGitApi();
+  if (!api) {
+    return [];
+  }
+
+  const remotes: DiscoveredRemote[] = [];
+  for (const repo of api.repositories) {
+    for (const remote of repo.state.remotes) {
+      const url = remote.fetchUrl ?? remote.pushUrl;
+      if (url) {
+        remotes.push({ rootPath: repo.rootUri.fsPath, remoteName: remote.name, url });
+      }
+    }
+  }
+  return remotes;
+}
+
+async function getRemotesFromGitConfig(): Promise<DiscoveredRemote[]> {
+  const remotes: DiscoveredRemote[] = [];
+  for (const folder of vscode.workspace.workspaceFolders ?? []) {
+    remotes.push(...(await readRemotesFromWorkspace(folder.uri.fsPath)));
+  }
+  return remotes;
+}
+
+async function readRemotesFromWorkspace(workspacePath: string): Promise<DiscoveredRemote[]> {
+  const gitPath = path.join(workspacePath, '.git');
+  let gitStat;
+
+  try {
+    gitStat = await fs.stat(gitPath);
+  } catch {
+    return [];
+  }
+
+  let configPath: string | undefined;
+  if (gitStat.isDirectory()) {
+    configPath = path.join(gitPath, 'config');
+  } else {
+    const pointer = await fs.readFile(gitPath, 'utf8');
+    const match = pointer.match(/gitdir:\s*(.+)\s*$/im);
+    if (!match) {
+      return [];
+    }
+    const resolvedGitDir = path.resolve(workspacePath, match[1].trim());
+    configPath = path.join(resolvedGitDir, 'config');
+  }
+
+  let config: string;
+  try {
+    config = await fs.readFile(configPath, 'utf8');
+  } catch {
+    return [];
+  }
+
+  const remotes: DiscoveredRemote[] = [];
+  const remoteBlocks = config.matchAll(/\[remote "([^"]+)"\]([\s\S]*?)(?=\r?\n\[|$(?![\s\S]))/g);
+  for (const block of remoteBlocks) {
+    const urlMatch = block[2].match(/^\s*url\s*=\s*(.+)\s*$/m);
+    if (urlMatch) {
+      remotes.push({ rootPath: workspacePath, remoteName: block[1], url: urlMatch[1].trim() });
+    }
+  }
+  return remotes;
+}
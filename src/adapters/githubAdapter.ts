@@ -1,33 +1,74 @@
 import * as vscode from 'vscode';
 import { Octokit } from '@octokit/rest';
-import * as fs from 'node:fs/promises';
-import * as path from 'node:path';
-import { IGitHubAdapter, PullRequest, ChangedFile, MergeStatus, MergeMethod, MergeResult, StatusCheck } from '../types';
-
-type GitRemote = { name: string; fetchUrl?: string };
-type GitRepository = { state: { remotes: GitRemote[] } };
-type GitAPI = { repositories: GitRepository[] };
-type GitExtensionExports = { getAPI(version: number): GitAPI };
-
-export class GitHubAdapter implements IGitHubAdapter {
+import {
+  IScmAdapter,
+  PullRequest,
+  PullRequestPage,
+  ChangedFile,
+  ChangedFileList,
+  DiffSnapshot,
+  RepositoryRef,
+  MergeStatus,
+  MergeMethod,
+  MergeResult,
+  StatusCheck,
+  ReviewSubmission,
+  MergeRequirements,
+  BranchUpdateMethod,
+  AutoMerge,
+  PullRequestCommit,
+  LinkedIssue,
+  NewPullRequest,
+  PRSortOrder,
+  ReviewComment,
+  HeadFork,
+} from '../types';
+import { splitUnifiedDiff } from '../core/diffEngine';
+import { fencedBlock } from '../core/reviewPublisher';
+import { describeMergeBlockers, describeMergeWarnings } from '../core/mergeBlockers';
+import { getRemoteUrl, parseRemoteUrl, hostOf } from './gitRemote';
+
+const GITHUB_HOST = 'github.com';
+
+export class GitHubAdapter implements IScmAdapter {
   private octokit: Octokit | undefined;
+  private host: string = GITHUB_HOST;
   private owner: string = '';
   private repo: string = '';
+  private login: string | undefined;
+  private readonly diffSnapshots = new Map<string, DiffSnapshot>();
 
+  /**
+   * github.com uses the `github` auth provider and the default API URL;
+   * a GitHub Enterprise Server host uses `github-enterprise` and `<url>/api/v3`.
+   */
   private async getOctokit(): Promise<Octokit> {
     if (!this.octokit) {
-      const session = await vscode.authentication.getSession('github', ['repo'], {
-        createIfNone: true,
+      await this.resolveRepo();
+      const enterpriseUrl = this.host === GITHUB_HOST ? undefined : getEnterpriseUrl();
+      if (enterpriseUrl) {
+        await confirmEnterpriseAuthUri(enterpriseUrl);
+      }
+      const session = await vscode.authentication.getSession(
+        enterpriseUrl ? 'github-enterprise' : 'github',
+        ['repo'],
+        { createIfNone: true }
+      );
+      this.octokit = new Octokit({
+        auth: session.accessToken,
+        baseUrl: enterpriseUrl ? `${enterpriseUrl}/api/v3` : undefined,
       });
-      this.octokit = new Octokit({ auth: session.accessToken });
     }
     return this.octokit;
   }
 
-  async setRepository(owner: string, repo: string): Promise<void> {
-    this.owner = owner;
-    this.repo = repo;
+  async setRepository(repository: RepositoryRef): Promise<void> {
+    this.host = repository.host;
+    this.owner = repository.owner;
+    this.repo = repository.repo;
     this.octokit = undefined;
+    this.login = undefined;
+    this.diffSnapshots.clear();
   }
 
   private async resolveRepo(): Promise<{ owner: string; repo: string }> {
@@ -35,183 +76,283 @@ export class GitHubAdapter implements IGitHubAdapter {
       return { owner: this.owner, repo: this.repo };
     }
     // Try to detect from workspace git remote
-    const remoteUrl = await this.getRemoteUrl();
-    const match = remoteUrl.match(/github\.com[/:]([^/]+)\/([^/.]+)/);
-    if (!match) {
-      throw new Error('Unable to determine GitHub repository. Please open a GitHub repository in VS Code.');
+    const remote = parseRemoteUrl(await getRemoteUrl());
+    const enterpriseHost = hostOf(getEnterpriseUrl());
+    if (!remote || (remote.host !== GITHUB_HOST && remote.host !== enterpriseHost)) {
+      throw new Error(
+        'Unable to determine GitHub repository. Please open a GitHub repository in VS Code ' +
+        '(for GitHub Enterprise Server, set prism.githubEnterpriseUrl).'
+      );
     }
-    this.owner = match[1];
-    this.repo = match[2].replace(/\.git$/, '');
+    this.host = remote.host;
+    this.owner = remote.owner;
+    this.repo = remote.repo;
     return { owner: this.owner, repo: this.repo };
   }
 
-  private async getRemoteUrl(): Promise<string> {
-    const remoteFromGitApi = await this.getRemoteUrlFromGitApi();
-    if (remoteFromGitApi) {
-      return remoteFromGitApi;
+  async getCurrentUser(): Promise<string> {
+    if (!this.login) {
+      const octokit = await this.getOctokit();
+      this.login = (await octokit.users.getAuthenticated()).data.login;
     }
+    return this.login;
+  }
 
-    const remoteFromConfig = await this.getRemoteUrlFromGitConfig();
-    if (remoteFromConfig) {
-      return remoteFromConfig;
+  async getCurrentUserTeams(): Promise<string[]> {
+    const octokit = await this.getOctokit();
+    try {
+      const teams = await octokit.paginate(octokit.teams.listForAuthenticatedUser, { per_page: 100 });
+      return teams.map((team) => `${team.organization.login}/${team.slug}`);
+    } catch (err) {
+      // Tokens that cannot read organization membership see no teams
+      if ((err as { status?: number }).status === 403 || (err as { status?: number }).status === 404) {
+        return [];
+      }
+      throw err;
     }
+  }
 
-    throw new Error(
-      'Unable to detect git remote URL. Open a local GitHub repository and ensure the "origin" remote is configured.'
+  async listOpenPRs(): Promise<PullRequest[]> {
+    const octokit = await this.getOctokit();
+    const { owner, repo } = await this.resolveRepo();
+    const prs = await octokit.paginate(
+      octokit.pulls.list,
+      { owner, repo, state: 'open', per_page: 100 },
+      (response) => response.data.map((pr) => toPullRequest(pr))
     );
+    for (let i = 0; i < prs.length; i += 100) {
+      await this.addMergeableStates(prs.slice(i, i + 100));
+    }
+    return prs;
   }
 
-  private async getRemoteUrlFromGitApi(): Promise<string | undefined> {
-    const extension = vscode.extensions.getExtension<GitExtensionExports>('vscode.git');
-    if (!extension) {
-      return undefined;
+  /** Lazily walks the open PR list one page at a time (used by the sidebar's "Load more" node). */
+  async *listOpenPRPages(pageSize: number, sort: PRSortOrder = 'newest'): AsyncGenerator<PullRequestPage> {
+    const octokit = await this.getOctokit();
+    const { owner, repo } = await this.resolveRepo();
+    const pages = octokit.paginate.iterator(octokit.pulls.list, {
+      owner,
+      repo,
+      state: 'open',
+      per_page: pageSize,
+      sort: sort === 'newest' || sort === 'oldest' ? 'created' : 'updated',
+      direction: sort === 'newest' || sort === 'recentlyUpdated' ? 'desc' : 'asc',
+    });
+    for await (const response of pages) {
+      const pullRequests = response.data.map((pr) => toPullRequest(pr));
+      await this.addMergeableStates(pullRequests);
+      yield { pullRequests, hasMore: hasNextPage(response.headers.link) };
     }
+  }
 
-    let gitExports: GitExtensionExports | undefined;
+  /**
+   * The list endpoint leaves out `mergeable_state`, so a page's states come
+   * from one GraphQL query (`mergeStateStatus`). Without it they stay unset.
+   */
+  private async addMergeableStates(prs: PullRequest[]): Promise<void> {
+    if (prs.length === 0) {
+      return;
+    }
+    const octokit = await this.getOctokit();
+    const { owner, repo } = await this.resolveRepo();
     try {
-      gitExports = extension.isActive ? extension.exports : await extension.activate();
+      const fields = prs.map((pr) => `pr${pr.number}: pullRequest(number: ${pr.number}) { mergeStateStatus }`).join('\n');
+      const result = await octokit.graphql<{ repository: Record<string, { mergeStateStatus: string } | null> }>(
+        `query($owner: String!, $repo: String!) { repository(owner: $owner, name: $repo) { ${fields} } }`,
+        { owner, repo }
+      );
+      for (const pr of prs) {
+        pr.mergeableState = toMergeableState(result.repository[`pr${pr.number}`]?.mergeStateStatus);
+      }
     } catch {
-      return undefined;
+      // The sidebar only shows the state; listing goes on without it
     }
+  }
 
-    if (!gitExports || typeof gitExports.getAPI !== 'function') {
-      return undefined;
-    }
+  async getChangedFiles(prNumber: number): Promise<ChangedFileList> {
+    const { data, truncated } = await this.listFiles(prNumber);
+    const files: ChangedFile[] = data.map((file) => ({
+      filePath: file.filename,
+      status: file.status as ChangedFile['status'],
+      additions: file.additions,
+      deletions: file.deletions,
+      previousPath: file.previous_filename,
+    }));
+    return { files, truncated };
+  }
 
-    const repos = gitExports.getAPI(1).repositories;
-    for (const repo of repos) {
-      const origin = repo.state.remotes.find((remote) => remote.name === 'origin');
-      if (origin?.fetchUrl) {
-        return origin.fetchUrl;
+  /** The PR's files with their patches, up to prism.maxChangedFiles. */
+  private async listFiles(prNumber: number): Promise<{ data: PullRequestFile[]; truncated: boolean }> {
+    const octokit = await this.getOctokit();
+    const { owner, repo } = await this.resolveRepo();
+    const maxFiles = vscode.workspace.getConfiguration('prism').get<number>('maxChangedFiles', 3000);
+
+    let fetched = 0;
+    let truncated = false;
+    const data = await octokit.paginate(
+      octokit.pulls.listFiles,
+      { owner, repo, pull_number: prNumber, per_page: 100 },
+      (response, done) => {
+        fetched += response.data.length;
+        if (fetched >= maxFiles) {
+          truncated = fetched > maxFiles || hasNextPage(response.headers.link);
+          done();
+        }
+        return response.data;
       }
-    }
+    );
 
-    return undefined;
+    return { data: data.slice(0, maxFiles), truncated };
   }
 
-  private async getRemoteUrlFromGitConfig(): Promise<string | undefined> {
-    const workspaceFolders = vscode.workspace.workspaceFolders ?? [];
-    for (const folder of workspaceFolders) {
-      const remote = await this.readOriginRemoteFromWorkspace(folder.uri.fsPath);
-      if (remote) {
-        return remote;
-      }
-    }
-    return undefined;
+  async getDiff(prNumber: number, filePath: string): Promise<string> {
+    const snapshot = await this.getDiffSnapshot(prNumber);
+    return snapshot.files.get(filePath) ?? '';
   }
 
-  private async readOriginRemoteFromWorkspace(workspacePath: string): Promise<string | undefined> {
-    const gitPath = path.join(workspacePath, '.git');
-    let gitStat;
-
-    try {
-      gitStat = await fs.stat(gitPath);
-    } catch {
-      return undefined;
-    }
+  /**
+   * Returns the PR diff split per file. The full diff is downloaded once per
+   * head SHA and reused until new commits are pushed to the PR. GitHub refuses
+   * the diff of PRs over 300 files or of very large diffs; those are assembled
+   * from the per-file patches of `pulls.listFiles` instead, which GitHub omits
+   * for binary and very large files.
+   */
+  async getDiffSnapshot(prNumber: number): Promise<DiffSnapshot> {
+    const octokit = await this.getOctokit();
+    const { owner, repo } = await this.resolveRepo();
+    const { data: pr } = await octokit.pulls.get({ owner, repo, pull_number: prNumber });
 
-    let configPath: string | undefined;
-    if (gitStat.isDirectory()) {
-      configPath = path.join(gitPath, 'config');
-    } else {
-      const pointer = await fs.readFile(gitPath, 'utf8');
-      const match = pointer.match(/gitdir:\s*(.+)\s*$/im);
-      if (!match) {
-        return undefined;
-      }
-      const resolvedGitDir = path.resolve(workspacePath, match[1].trim());
-      configPath = path.join(resolvedGitDir, 'config');
+    const cacheKey = `${owner}/${repo}#${prNumber}`;
+    const cached = this.diffSnapshots.get(cacheKey);
+    if (cached && cached.headSha === pr.head.sha && cached.baseSha === pr.base.sha) {
+      return cached;
     }
 
-    let config: string;
+    const files = new Map<string, string>();
+    let partial = false;
     try {
-      config = await fs.readFile(configPath, 'utf8');
-    } catch {
-      return undefined;
+      const { data } = await octokit.pulls.get({
+        owner,
+        repo,
+        pull_number: prNumber,
+        mediaType: { format: 'diff' },
+      });
+      for (const fileDiff of splitUnifiedDiff(data as unknown as string)) {
+        files.set(fileDiff.filePath, fileDiff.text);
+      }
+    } catch (err) {
+      // 406 "diff exceeded the maximum number of files/lines", 422 "diff is taking too long to generate"
+      const status = (err as { status?: number }).status;
+      if (status !== 406 && status !== 422) {
+        throw err;
+      }
+      partial = true;
+      for (const file of (await this.listFiles(prNumber)).data) {
+        if (file.patch !== undefined) {
+          files.set(file.filename, toUnifiedDiff(file));
+        }
+      }
     }
 
-    const originBlockMatch = config.match(/\[remote "origin"\]([\s\S]*?)(?=\r?\n\[|$)/);
-    if (!originBlockMatch) {
-      return undefined;
-    }
+    // The PR diff is three-dot, i.e. against the merge base rather than the base branch tip
+    const { data: comparison } = await octokit.repos.compareCommitsWithBasehead({
+      owner,
+      repo,
+      basehead: `${pr.base.sha}...${pr.head.sha}`,
+      per_page: 1,
+    });
 
-    const urlMatch = originBlockMatch[1].match(/^\s*url\s*=\s*(.+)\s*$/m);
-    return urlMatch ? urlMatch[1].trim() : undefined;
+    const snapshot: DiffSnapshot = {
+      prNumber,
+      headSha: pr.head.sha,
+      baseSha: pr.base.sha,
+      mergeBaseSha: comparison.merge_base_commit.sha,
+      files,
+      partial,
+    };
+    this.diffSnapshots.set(cacheKey, snapshot);
+    return snapshot;
   }
 
-  async listOpenPRs(): Promise<PullRequest[]> {
+  async getFileContent(filePath: string, ref: string): Promise<string | undefined> {
     const octokit = await this.getOctokit();
     const { owner, repo } = await this.resolveRepo();
-    const { data } = await octokit.pulls.list({
-      owner,
-      repo,
-      state: 'open',
-      per_page: 50,
-    });
-    return data.map((pr) => ({
-      number: pr.number,
-      title: pr.title,
-      author: pr.user?.login ?? 'unknown',
-      url: pr.html_url,
-      headBranch: pr.head.ref,
-      baseBranch: pr.base.ref,
-      changedFilesCount: (pr as unknown as { changed_files?: number }).changed_files ?? 0,
-      createdAt: pr.created_at,
-    }));
+    try {
+      const { data } = await octokit.repos.getContent({ owner, repo, path: filePath, ref, mediaType: { format: 'raw' } });
+      return data as unknown as string;
+    } catch (err) {
+      if ((err as { status?: number }).status === 404) {
+        return undefined;
+      }
+      throw err;
+    }
   }
 
-  async getChangedFiles(prNumber: number): Promise<ChangedFile[]> {
+  async submitReviewComment(
+    prNumber: number,
+    filePath: string,
+    body: string,
+    line: number
+  ): Promise<void> {
     const octokit = await this.getOctokit();
     const { owner, repo } = await this.resolveRepo();
-    const { data } = await octokit.pulls.listFiles({
+    const { data: pr } = await octokit.pulls.get({ owner, repo, pull_number: prNumber });
+    await octokit.pulls.createReviewComment({
       owner,
       repo,
       pull_number: prNumber,
-      per_page: 100,
+      body,
+      path: filePath,
+      line,
+      commit_id: pr.head.sha,
     });
-    return data.map((file) => ({
-      filePath: file.filename,
-      status: file.status as ChangedFile['status'],
-      additions: file.additions,
-      deletions: file.deletions,
-    }));
   }
 
-  async getDiff(prNumber: number, filePath: string): Promise<string> {
+  async getReviewComments(prNumber: number): Promise<ReviewComment[]> {
     const octokit = await this.getOctokit();
     const { owner, repo } = await this.resolveRepo();
-    const { data } = await octokit.pulls.get({
+    const comments = await octokit.paginate(octokit.pulls.listReviewComments, {
       owner,
       repo,
       pull_number: prNumber,
-      mediaType: { format: 'diff' },
+      per_page: 100,
     });
-    const fullDiff = data as unknown as string;
-    // Extract diff for the specific file
-    const fileDiffMatch = fullDiff.match(
-      new RegExp(`diff --git a/${escapeRegex(filePath)}[\\s\\S]*?(?=diff --git|$)`)
-    );
-    return fileDiffMatch ? fileDiffMatch[0] : '';
+    // Outdated comments have no line on the current diff; LEFT-side ones refer to the base version
+    return comments
+      .filter((c) => c.line != null && c.side !== 'LEFT')
+      .map((c) => ({
+        filePath: c.path,
+        line: c.line as number,
+        author: c.user?.login ?? 'unknown',
+        body: c.body,
+        createdAt: c.created_at,
+        url: c.html_url,
+      }));
   }
 
-  async submitReviewComment(
-    prNumber: number,
-    filePath: string,
-    body: string,
-    line: number
-  ): Promise<void> {
+  async submitReview(prNumber: number, review: ReviewSubmission): Promise<string> {
     const octokit = await this.getOctokit();
     const { owner, repo } = await this.resolveRepo();
-    const { data: pr } = await octokit.pulls.get({ owner, repo, pull_number: prNumber });
-    await octokit.pulls.createReviewComment({
+    const { data } = await octokit.pulls.createReview({
       owner,
       repo,
       pull_number: prNumber,
-      body,
-      path: filePath,
-      line,
-      commit_id: pr.head.sha,
+      commit_id: review.commitSha,
+      event: review.event,
+      body: review.body,
+      comments: review.comments.map((comment) => ({
+        path: comment.filePath,
+        start_line: comment.startLine,
+        start_side: comment.startLine !== undefined ? 'RIGHT' : undefined,
+        line: comment.line,
+        side: 'RIGHT',
+        body:
+          comment.suggestion !== undefined
+            ? `${comment.body}\n\n${fencedBlock(comment.suggestion, 'suggestion')}`
+            : comment.body,
+      })),
     });
+    return data.html_url;
   }
 
   async getMergeStatus(prNumber: number): Promise<MergeStatus> {
@@ -219,7 +360,7 @@ export class GitHubAdapter implements IGitHubAdapter {
     const { owner, repo } = await this.resolveRepo();
     const { data: pr } = await octokit.pulls.get({ owner, repo, pull_number: prNumber });
 
-    // Fetch status checks for the head commit
+    // Legacy commit statuses and check runs (GitHub Actions, apps) both gate merging
     const statusChecks: StatusCheck[] = [];
     try {
       const { data: combinedStatus } = await octokit.repos.getCombinedStatusForRef({
@@ -232,36 +373,201 @@ export class GitHubAdapter implements IGitHubAdapter {
           name: s.context,
           status: s.state === 'success' ? 'success' : s.state === 'failure' || s.state === 'error' ? 'failure' : 'pending',
           description: s.description ?? undefined,
+          conclusion: s.state,
+          detailsUrl: s.target_url ?? undefined,
         });
       }
     } catch {
       // Status checks may not be available
     }
+    try {
+      const checkRuns = await octokit.paginate(octokit.checks.listForRef, {
+        owner,
+        repo,
+        ref: pr.head.sha,
+        per_page: 100,
+      });
+      for (const run of checkRuns) {
+        statusChecks.push({
+          name: run.name, // required status checks are matched by this name
+          status: toCheckRunStatus(run.status, run.conclusion),
+          description: run.output?.title ?? run.conclusion ?? run.status,
+          conclusion: run.conclusion ?? run.status,
+          durationMs:
+            run.started_at && run.completed_at
+              ? new Date(run.completed_at).getTime() - new Date(run.started_at).getTime()
+              : undefined,
+          detailsUrl: run.details_url ?? run.html_url ?? undefined,
+        });
+      }
+    } catch {
+      // Check runs need the Checks API, which some tokens cannot read
+    }
+
+    // Ahead/behind relative to the current tip of the base branch
+    let aheadBy = 0;
+    let behindBy = 0;
+    try {
+      const { data: comparison } = await octokit.repos.compareCommitsWithBasehead({
+        owner,
+        repo,
+        basehead: `${pr.base.ref}...${pr.head.sha}`,
+        per_page: 1,
+      });
+      aheadBy = comparison.ahead_by;
+      behindBy = comparison.behind_by;
+    } catch {
+      // The head commit may be unreachable, e.g. a deleted fork
+    }
 
     // Determine allowed merge methods from repo settings
     let allowedMethods: MergeMethod[] = ['merge', 'squash', 'rebase'];
+    let autoMergeAllowed = false;
     try {
       const { data: repoData } = await octokit.repos.get({ owner, repo });
       allowedMethods = [];
       if (repoData.allow_merge_commit) { allowedMethods.push('merge'); }
       if (repoData.allow_squash_merge) { allowedMethods.push('squash'); }
       if (repoData.allow_rebase_merge) { allowedMethods.push('rebase'); }
+      autoMergeAllowed = repoData.allow_auto_merge ?? false;
     } catch {
       // Fallback to all methods
     }
 
     const mergeableState = pr.mergeable_state as MergeStatus['mergeableState'] ?? 'unknown';
+    const requirements = await this.getMergeRequirements(octokit, prNumber, pr.base.ref);
 
-    return {
+    const status = {
+      headSha: pr.head.sha,
       mergeable: pr.mergeable ?? false,
       mergeableState,
       merged: pr.merged,
       mergedBy: pr.merged_by?.login,
       mergedAt: pr.merged_at ?? undefined,
-      behindBy: 0, // GitHub REST doesn't expose this directly on PR
-      aheadBy: 0,
+      mergeCommitSha: pr.merged ? pr.merge_commit_sha ?? undefined : undefined,
+      behindBy,
+      aheadBy,
       allowedMethods,
       statusChecks,
+      requirements,
+      autoMergeAllowed,
+      autoMerge: toAutoMerge(pr.auto_merge),
+    };
+    const blockingReasons = describeMergeBlockers(status);
+    if (mergeableState === 'blocked' && blockingReasons.length === 0) {
+      blockingReasons.push('Blocked by a branch protection rule or ruleset that PRism could not read.');
+    }
+    return { ...status, blockingReasons, warnings: describeMergeWarnings(status) };
+  }
+
+  /**
+   * Required reviews and checks come from classic branch protection (readable
+   * by admins only) and from rulesets (readable by anyone with read access);
+   * when both apply, the stricter setting wins.
+   */
+  private async getMergeRequirements(octokit: Octokit, prNumber: number, baseBranch: string): Promise<MergeRequirements> {
+    const { owner, repo } = await this.resolveRepo();
+    let requiredApprovals = 0;
+    let codeOwnerReviewRequired = false;
+    let requiresUpToDate = false;
+    const requiredChecks = new Set<string>();
+
+    try {
+      const { data: protection } = await octokit.repos.getBranchProtection({ owner, repo, branch: baseBranch });
+      const reviews = protection.required_pull_request_reviews;
+      requiredApprovals = reviews?.required_approving_review_count ?? 0;
+      codeOwnerReviewRequired = reviews?.require_code_owner_reviews ?? false;
+      requiresUpToDate = protection.required_status_checks?.strict ?? false;
+      for (const check of protection.required_status_checks?.checks ?? []) {
+        requiredChecks.add(check.context);
+      }
+      for (const context of protection.required_status_checks?.contexts ?? []) {
+        requiredChecks.add(context);
+      }
+    } catch {
+      // Without admin rights only the required check names are visible
+      try {
+        const { data: branch } = await octokit.repos.getBranch({ owner, repo, branch: baseBranch });
+        for (const context of branch.protection?.required_status_checks?.contexts ?? []) {
+          requiredChecks.add(context);
+        }
+      } catch {
+        // Branch may be gone or unreadable
+      }
+    }
+
+    try {
+      const rules = await octokit.paginate(octokit.repos.getBranchRules, {
+        owner,
+        repo,
+        branch: baseBranch,
+        per_page: 100,
+      });
+      for (const rule of rules) {
+        if (rule.type === 'pull_request' && rule.parameters) {
+          requiredApprovals = Math.max(requiredApprovals, rule.parameters.required_approving_review_count);
+          codeOwnerReviewRequired ||= rule.parameters.require_code_owner_review;
+        } else if (rule.type === 'required_status_checks' && rule.parameters) {
+          requiresUpToDate ||= rule.parameters.strict_required_status_checks_policy;
+          for (const check of rule.parameters.required_status_checks) {
+            requiredChecks.add(check.context);
+          }
+        }
+      }
+    } catch {
+      // Rulesets are unavailable on older GitHub Enterprise Server releases
+    }
+
+    // Latest review per reviewer; comments don't change the review state
+    const latestStates = new Map<string, string>();
+    try {
+      const reviews = await octokit.paginate(octokit.pulls.listReviews, {
+        owner,
+        repo,
+        pull_number: prNumber,
+        per_page: 100,
+      });
+      for (const review of reviews) {
+        if (review.user && review.state !== 'COMMENTED' && review.state !== 'PENDING') {
+          latestStates.set(review.user.login, review.state);
+        }
+      }
+    } catch {
+      // Leave review state empty
+    }
+    const reviewersIn = (state: string) =>
+      [...latestStates].filter(([, s]) => s === state).map(([login]) => login);
+
+    let reviewRequired = false;
+    let canBypass = false;
+    try {
+      const result = await octokit.graphql<{
+        repository: { pullRequest: { reviewDecision: string | null; viewerCanMergeAsAdmin: boolean } };
+      }>(
+        `query($owner: String!, $repo: String!, $number: Int!) {
+          repository(owner: $owner, name: $repo) {
+            pullRequest(number: $number) { reviewDecision viewerCanMergeAsAdmin }
+          }
+        }`,
+        { owner, repo, number: prNumber }
+      );
+      reviewRequired = result.repository.pullRequest.reviewDecision === 'REVIEW_REQUIRED';
+      canBypass = result.repository.pullRequest.viewerCanMergeAsAdmin;
+    } catch {
+      // GraphQL may be disabled or the token lacks access
+    }
+
+    const approvedBy = reviewersIn('APPROVED');
+    return {
+      requiredApprovals,
+      approvals: approvedBy.length,
+      approvedBy,
+      changesRequestedBy: reviewersIn('CHANGES_REQUESTED'),
+      reviewRequired,
+      codeOwnerReviewRequired,
+      requiredChecks: [...requiredChecks],
+      requiresUpToDate,
+      canBypass,
     };
   }
 
@@ -303,8 +609,348 @@ export class GitHubAdapter implements IGitHubAdapter {
       };
     }
   }
+
+  async createPR(request: NewPullRequest): Promise<PullRequest> {
+    const octokit = await this.getOctokit();
+    const { owner, repo } = await this.resolveRepo();
+    const { data } = await octokit.pulls.create({
+      owner,
+      repo,
+      title: request.title,
+      body: request.body,
+      head: request.headBranch,
+      base: request.baseBranch,
+      draft: request.draft,
+    });
+    return toPullRequest(data);
+  }
+
+  async getCommits(prNumber: number): Promise<PullRequestCommit[]> {
+    const octokit = await this.getOctokit();
+    const { owner, repo } = await this.resolveRepo();
+    const commits = await octokit.paginate(octokit.pulls.listCommits, {
+      owner,
+      repo,
+      pull_number: prNumber,
+      per_page: 100,
+    });
+    return commits.map((c) => ({
+      sha: c.sha,
+      message: c.commit.message,
+      authorName: c.commit.author?.name ?? c.author?.login ?? 'unknown',
+      authorEmail: c.commit.author?.email ?? '',
+      authorLogin: c.author?.login,
+    }));
+  }
+
+  /** Issues linked through closing keywords or the sidebar; only exposed by GraphQL. */
+  async getLinkedIssues(prNumber: number): Promise<LinkedIssue[]> {
+    const octokit = await this.getOctokit();
+    const { owner, repo } = await this.resolveRepo();
+    const result = await octokit.graphql<{
+      repository: { pullRequest: { closingIssuesReferences: { nodes: { number: number; title: string }[] } } };
+    }>(
+      `query($owner: String!, $repo: String!, $number: Int!) {
+        repository(owner: $owner, name: $repo) {
+          pullRequest(number: $number) {
+            closingIssuesReferences(first: 25) { nodes { number title } }
+          }
+        }
+      }`,
+      { owner, repo, number: prNumber }
+    );
+    return result.repository.pullRequest.closingIssuesReferences.nodes.map(({ number, title }) => ({ number, title }));
+  }
+
+  async getHeadSha(prNumber: number): Promise<string> {
+    const octokit = await this.getOctokit();
+    const { owner, repo } = await this.resolveRepo();
+    const { data: pr } = await octokit.pulls.get({ owner, repo, pull_number: prNumber });
+    return pr.head.sha;
+  }
+
+  /**
+   * REST `pulls.updateBranch` only merges the base in, so rebasing goes through
+   * GraphQL `updatePullRequestBranch`. Either way GitHub updates the branch
+   * asynchronously; callers poll `getHeadSha` for the new head.
+   */
+  async updateBranch(prNumber: number, method: BranchUpdateMethod, expectedHeadSha: string): Promise<MergeResult> {
+    const octokit = await this.getOctokit();
+    const { owner, repo } = await this.resolveRepo();
+
+    try {
+      if (method === 'merge') {
+        const { data } = await octokit.pulls.updateBranch({
+          owner,
+          repo,
+          pull_number: prNumber,
+          expected_head_sha: expectedHeadSha,
+        });
+        return { success: true, message: data.message ?? 'Branch update scheduled' };
+      }
+
+      const { data: pr } = await octokit.pulls.get({ owner, repo, pull_number: prNumber });
+      if (pr.head.sha !== expectedHeadSha) {
+        return { success: false, message: 'The branch has new commits since its status was loaded. Refresh and try again.' };
+      }
+      await octokit.graphql(
+        `mutation($id: ID!, $sha: GitObjectID!) {
+          updatePullRequestBranch(input: { pullRequestId: $id, expectedHeadOid: $sha, updateMethod: REBASE }) {
+            pullRequest { id }
+          }
+        }`,
+        { id: pr.node_id, sha: expectedHeadSha }
+      );
+      return { success: true, message: 'Rebase scheduled' };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown branch update error';
+      return {
+        success: false,
+        message,
+      };
+    }
+  }
+
+  /** Auto-merge is a GraphQL-only feature; the repository must have "Allow auto-merge" enabled. */
+  async enableAutoMerge(prNumber: number, method: MergeMethod, commitTitle?: string): Promise<MergeResult> {
+    const octokit = await this.getOctokit();
+    const { owner, repo } = await this.resolveRepo();
+
+    try {
+      const { data: pr } = await octokit.pulls.get({ owner, repo, pull_number: prNumber });
+      await octokit.graphql(
+        `mutation($id: ID!, $method: PullRequestMergeMethod!, $headline: String) {
+          enablePullRequestAutoMerge(input: { pullRequestId: $id, mergeMethod: $method, commitHeadline: $headline }) {
+            pullRequest { id }
+          }
+        }`,
+        { id: pr.node_id, method: method.toUpperCase(), headline: commitTitle }
+      );
+      return { success: true, message: 'Auto-merge enabled' };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown auto-merge error';
+      return {
+        success: false,
+        message,
+      };
+    }
+  }
+
+  async disableAutoMerge(prNumber: number): Promise<MergeResult> {
+    const octokit = await this.getOctokit();
+    const { owner, repo } = await this.resolveRepo();
+
+    try {
+      const { data: pr } = await octokit.pulls.get({ owner, repo, pull_number: prNumber });
+      await octokit.graphql(
+        `mutation($id: ID!) {
+          disablePullRequestAutoMerge(input: { pullRequestId: $id }) {
+            pullRequest { id }
+          }
+        }`,
+        { id: pr.node_id }
+      );
+      return { success: true, message: 'Auto-merge disabled' };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown auto-merge error';
+      return {
+        success: false,
+        message,
+      };
+    }
+  }
+
+  async getHeadFork(prNumber: number): Promise<HeadFork | undefined> {
+    const octokit = await this.getOctokit();
+    const { owner, repo } = await this.resolveRepo();
+    const { data: pr } = await octokit.pulls.get({ owner, repo, pull_number: prNumber });
+    if (!pr.head.repo) {
+      throw new Error(`The fork of PR #${prNumber} has been deleted.`);
+    }
+    return pr.head.repo.full_name === pr.base.repo.full_name
+      ? undefined
+      : { owner: pr.head.repo.owner.login, cloneUrl: pr.head.repo.clone_url };
+  }
+
+  async deleteHeadBranch(prNumber: number): Promise<boolean> {
+    const octokit = await this.getOctokit();
+    const { owner, repo } = await this.resolveRepo();
+    const { data: pr } = await octokit.pulls.get({ owner, repo, pull_number: prNumber });
+    if (pr.head.repo?.full_name !== pr.base.repo.full_name) {
+      return false; // Fork branches belong to their owner
+    }
+    try {
+      await octokit.git.deleteRef({ owner, repo, ref: `heads/${pr.head.ref}` });
+      return true;
+    } catch (err) {
+      // 422 "Reference does not exist": deleted already, e.g. by the repository's auto-delete setting
+      if ((err as { status?: number }).status === 422) {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  async commentOnIssue(issueNumber: number, body: string): Promise<void> {
+    const octokit = await this.getOctokit();
+    const { owner, repo } = await this.resolveRepo();
+    await octokit.issues.createComment({ owner, repo, issue_number: issueNumber, body });
+  }
+
+  async closeIssue(issueNumber: number): Promise<boolean> {
+    const octokit = await this.getOctokit();
+    const { owner, repo } = await this.resolveRepo();
+    const { data: issue } = await octokit.issues.get({ owner, repo, issue_number: issueNumber });
+    if (issue.state === 'closed') {
+      return false;
+    }
+    await octokit.issues.update({ owner, repo, issue_number: issueNumber, state: 'closed', state_reason: 'completed' });
+    return true;
+  }
+}
+
+function getEnterpriseUrl(): string | undefined {
+  const url = vscode.workspace.getConfiguration('prism').get<string>('githubEnterpriseUrl', '').trim();
+  return url ? url.replace(/\/+$/, '') : undefined;
+}
+
+/**
+ * VS Code's github-enterprise auth provider signs in against its own
+ * `github-enterprise.uri` setting, and `getSession` takes no server. That
+ * setting belongs to the user, so it is only changed once they agree.
+ */
+async function confirmEnterpriseAuthUri(enterpriseUrl: string): Promise<void> {
+  const authConfig = vscode.workspace.getConfiguration('github-enterprise');
+  const current = authConfig.get<string>('uri', '').trim().replace(/\/+$/, '');
+  if (current && hostOf(current) === hostOf(enterpriseUrl)) {
+    return;
+  }
+  const choice = await vscode.window.showWarningMessage(
+    current
+      ? `VS Code signs in to GitHub Enterprise at ${current}, not ${enterpriseUrl}.`
+      : `VS Code needs to know where to sign in to GitHub Enterprise.`,
+    {
+      modal: true,
+      detail: `PRism can set github-enterprise.uri to ${enterpriseUrl}. Other extensions that use GitHub Enterprise sign in there too.`,
+    },
+    'Set github-enterprise.uri'
+  );
+  if (choice !== 'Set github-enterprise.uri') {
+    throw new Error(`Signing in to ${enterpriseUrl} needs github-enterprise.uri to point at it.`);
+  }
+  await authConfig.update('uri', enterpriseUrl, vscode.ConfigurationTarget.Global);
 }
 
-function escapeRegex(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+type PullRequestFile = Awaited<ReturnType<Octokit['pulls']['listFiles']>>['data'][number];
+
+type PullRequestListItem = Awaited<ReturnType<Octokit['pulls']['list']>>['data'][number];
+
+/** The fields read from both list items and full pull requests (e.g. as returned by `pulls.create`). */
+type PullRequestData = Pick<
+  PullRequestListItem,
+  | 'number'
+  | 'title'
+  | 'user'
+  | 'html_url'
+  | 'head'
+  | 'base'
+  | 'created_at'
+  | 'updated_at'
+  | 'auto_merge'
+  | 'body'
+  | 'draft'
+  | 'assignees'
+  | 'requested_reviewers'
+> & { labels: { name?: string }[]; requested_teams?: { slug: string }[] | null };
+
+function toPullRequest(pr: PullRequestData): PullRequest {
+  return {
+    number: pr.number,
+    title: pr.title,
+    author: pr.user?.login ?? 'unknown',
+    url: pr.html_url,
+    headBranch: pr.head.ref,
+    baseBranch: pr.base.ref,
+    changedFilesCount: (pr as unknown as { changed_files?: number }).changed_files ?? 0,
+    createdAt: pr.created_at,
+    autoMerge: toAutoMerge(pr.auto_merge),
+    body: pr.body ?? undefined,
+    fromFork: pr.head.repo?.full_name !== pr.base.repo.full_name, // a deleted fork has no repo
+    mergeableState: toMergeableState((pr as { mergeable_state?: string }).mergeable_state), // full PRs only
+    draft: pr.draft ?? false,
+    labels: pr.labels.flatMap((label) => (label.name ? [label.name] : [])),
+    requestedReviewers: [
+      ...(pr.requested_reviewers ?? []).map((user) => user.login),
+      ...(pr.requested_teams ?? []).map((team) => `${pr.base.repo.owner.login}/${team.slug}`),
+    ],
+    assignees: (pr.assignees ?? []).map((user) => user.login),
+    updatedAt: pr.updated_at,
+  };
+}
+
+/** `pulls.listFiles` patches are hunks only; prepend git-style headers so DiffEngine can parse them. */
+function toUnifiedDiff(file: PullRequestFile): string {
+  const oldPath = file.previous_filename ?? file.filename;
+  const header = [`diff --git a/${oldPath} b/${file.filename}`];
+  if (file.status === 'added') {
+    header.push('new file mode 100644');
+  } else if (file.status === 'removed') {
+    header.push('deleted file mode 100644');
+  } else if (file.status === 'renamed') {
+    header.push(`rename from ${oldPath}`, `rename to ${file.filename}`);
+  }
+  header.push(
+    `--- ${file.status === 'added' ? '/dev/null' : `a/${oldPath}`}`,
+    `+++ ${file.status === 'removed' ? '/dev/null' : `b/${file.filename}`}`
+  );
+  return `${header.join('\n')}\n${(file.patch ?? '').replace(/\n*$/, '\n')}`;
+}
+
+/** REST `mergeable_state` or GraphQL `mergeStateStatus`; `behind` and `draft` block the merge button too. */
+function toMergeableState(state: string | undefined): MergeStatus['mergeableState'] | undefined {
+  switch (state?.toLowerCase()) {
+    case undefined:
+      return undefined;
+    case 'clean':
+    case 'has_hooks':
+      return 'clean';
+    case 'dirty':
+      return 'dirty';
+    case 'unstable':
+      return 'unstable';
+    case 'blocked':
+    case 'behind':
+    case 'draft':
+      return 'blocked';
+    default:
+      return 'unknown';
+  }
+}
+
+function toAutoMerge(
+  autoMerge: { merge_method: MergeMethod; enabled_by: { login: string } } | null | undefined
+): AutoMerge | undefined {
+  return autoMerge
+    ? { method: autoMerge.merge_method, enabledBy: autoMerge.enabled_by.login, source: 'provider' }
+    : undefined;
+}
+
+function hasNextPage(linkHeader: string | undefined): boolean {
+  return /rel="next"/.test(linkHeader ?? '');
+}
+
+function toCheckRunStatus(status: string, conclusion: string | null): StatusCheck['status'] {
+  if (status !== 'completed') {
+    return 'pending';
+  }
+  switch (conclusion) {
+    case 'success':
+      return 'success';
+    case 'neutral':
+    case 'skipped':
+    case 'stale':
+      return 'neutral';
+    default:
+      return 'failure'; // failure, cancelled, timed_out, action_required, startup_failure
+  }
 }
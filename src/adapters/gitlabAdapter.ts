@@ -0,0 +1,830 @@
+import {
+  IScmAdapter,
+  PullRequest,
+  PullRequestPage,
+  ChangedFile,
+  ChangedFileList,
+  DiffSnapshot,
+  RepositoryRef,
+  MergeStatus,
+  MergeMethod,
+  MergeResult,
+  StatusCheck,
+  ReviewSubmission,
+  MergeRequirements,
+  BranchUpdateMethod,
+  AutoMerge,
+  PullRequestCommit,
+  LinkedIssue,
+  NewPullRequest,
+  PRSortOrder,
+  ReviewComment,
+  HeadFork,
+} from '../types';
+import { fencedBlock } from '../core/reviewPublisher';
+import { splitUnifiedDiff } from '../core/diffEngine';
+import { describeMergeBlockers, describeMergeWarnings } from '../core/mergeBlockers';
+
+export interface GitLabAdapterOptions {
+  /** Instance root, e.g. `https://gitlab.example.com` (the adapter appends `/api/v4`). */
+  baseUrl: string;
+  getToken: () => Promise<string>;
+  maxChangedFiles?: number;
+}
+
+type GitLabUser = { username: string };
+
+type GitLabMergeRequest = {
+  iid: number;
+  title: string;
+  web_url: string;
+  author?: GitLabUser;
+  source_branch: string;
+  target_branch: string;
+  changes_count?: string | null;
+  created_at: string;
+  state: 'opened' | 'closed' | 'locked' | 'merged';
+  sha: string;
+  diff_refs?: { base_sha: string; head_sha: string; start_sha: string } | null;
+  detailed_merge_status?: string;
+  merge_status?: string;
+  has_conflicts?: boolean;
+  merged_by?: GitLabUser | null;
+  merge_user?: GitLabUser | null;
+  merged_at?: string | null;
+  diverged_commits_count?: number;
+  head_pipeline?: { id: number; status: string; web_url: string } | null;
+  merge_commit_sha?: string | null;
+  squash_commit_sha?: string | null;
+  merge_when_pipeline_succeeds?: boolean;
+  squash?: boolean;
+  description?: string | null;
+  source_project_id?: number;
+  target_project_id?: number;
+  draft?: boolean;
+  labels?: string[];
+  reviewers?: GitLabUser[];
+  assignees?: GitLabUser[];
+  updated_at?: string;
+};
+
+type GitLabDiff = {
+  old_path: string;
+  new_path: string;
+  diff: string;
+  new_file: boolean;
+  renamed_file: boolean;
+  deleted_file: boolean;
+};
+
+type GitLabJob = {
+  name: string;
+  stage: string;
+  status: string;
+  allow_failure: boolean;
+  duration?: number | null; // seconds
+  web_url?: string;
+};
+
+type GitLabProject = {
+  http_url_to_repo?: string;
+  namespace?: { full_path: string };
+  merge_method?: string;
+  squash_option?: string;
+  only_allow_merge_if_pipeline_succeeds?: boolean;
+};
+
+type GitLabApprovals = {
+  approvals_required?: number;
+  approvals_left?: number;
+  approved_by?: { user: GitLabUser }[];
+};
+
+type GitLabApprovalState = { rules?: { rule_type: string; approved: boolean }[] };
+
+type GitLabReviewer = { user: GitLabUser; state: string };
+
+type GitLabDiscussion = {
+  notes: {
+    body: string;
+    author: GitLabUser;
+    created_at: string;
+    system: boolean;
+    position?: { new_path: string; new_line: number | null } | null;
+  }[];
+};
+
+type GitLabCommit = { id: string; message: string; author_name: string; author_email: string };
+
+type GitLabIssue = { iid: number; title: string; state?: 'opened' | 'closed' };
+
+/** `detailed_merge_status` values that have no counterpart in MergeRequirements. */
+const DETAILED_STATUS_REASONS: Record<string, string> = {
+  discussions_not_resolved: 'All discussions must be resolved.',
+  draft_status: 'The merge request is marked as draft.',
+  blocked_status: 'Blocked by another merge request.',
+  not_open: 'The merge request is not open.',
+  jira_association_missing: 'The title or description must reference a Jira issue.',
+  external_status_checks: 'External status checks have not passed.',
+};
+
+/**
+ * GitLab merge requests exposed through the same contract as the GitHub adapter.
+ * Talks to the REST API v4 with a personal access token.
+ */
+export class GitLabAdapter implements IScmAdapter {
+  private projectPath = '';
+  private username: string | undefined; // one token per instance, so it holds across projects
+  private readonly diffSnapshots = new Map<string, DiffSnapshot>();
+
+  constructor(private readonly options: GitLabAdapterOptions) {}
+
+  async setRepository(repository: RepositoryRef): Promise<void> {
+    this.projectPath = `${repository.owner}/${repository.repo}`;
+    this.diffSnapshots.clear();
+  }
+
+  async getCurrentUser(): Promise<string> {
+    if (!this.username) {
+      const { data } = await this.request<GitLabUser>('GET', '/user');
+      this.username = data.username;
+    }
+    return this.username;
+  }
+
+  /** MR reviewers are always users. */
+  async getCurrentUserTeams(): Promise<string[]> {
+    return [];
+  }
+
+  async listOpenPRs(): Promise<PullRequest[]> {
+    const prs: PullRequest[] = [];
+    for await (const page of this.listOpenPRPages(100)) {
+      prs.push(...page.pullRequests);
+    }
+    return prs;
+  }
+
+  async *listOpenPRPages(pageSize: number, sort: PRSortOrder = 'newest'): AsyncGenerator<PullRequestPage> {
+    const orderBy = sort === 'newest' || sort === 'oldest' ? 'created_at' : 'updated_at';
+    const direction = sort === 'newest' || sort === 'recentlyUpdated' ? 'desc' : 'asc';
+    const pages = this.paginate<GitLabMergeRequest>(
+      `/projects/${this.project()}/merge_requests?state=opened&order_by=${orderBy}&sort=${direction}`,
+      pageSize
+    );
+    for await (const page of pages) {
+      yield { pullRequests: page.items.map((mr) => toPullRequest(mr)), hasMore: page.hasMore };
+    }
+  }
+
+  async getChangedFiles(prNumber: number): Promise<ChangedFileList> {
+    const maxFiles = this.options.maxChangedFiles ?? 3000;
+    const files: ChangedFile[] = [];
+    let truncated = false;
+
+    for await (const page of this.paginate<GitLabDiff>(this.mergeRequestPath(prNumber, '/diffs'), 100)) {
+      files.push(...page.items.map((diff) => toChangedFile(diff)));
+      if (files.length >= maxFiles) {
+        truncated = files.length > maxFiles || page.hasMore;
+        break;
+      }
+    }
+    return { files: files.slice(0, maxFiles), truncated };
+  }
+
+  async getDiff(prNumber: number, filePath: string): Promise<string> {
+    const snapshot = await this.getDiffSnapshot(prNumber);
+    return snapshot.files.get(filePath) ?? '';
+  }
+
+  async getDiffSnapshot(prNumber: number): Promise<DiffSnapshot> {
+    const mr = await this.getMergeRequest(prNumber);
+    const headSha = mr.diff_refs?.head_sha ?? mr.sha;
+    const baseSha = mr.diff_refs?.base_sha ?? '';
+
+    const cacheKey = `${this.projectPath}!${prNumber}`;
+    const cached = this.diffSnapshots.get(cacheKey);
+    if (cached && cached.headSha === headSha && cached.baseSha === baseSha) {
+      return cached;
+    }
+
+    const files = new Map<string, string>();
+    for await (const page of this.paginate<GitLabDiff>(this.mergeRequestPath(prNumber, '/diffs'), 100)) {
+      for (const diff of page.items) {
+        files.set(toChangedFile(diff).filePath, toUnifiedDiff(diff));
+      }
+    }
+
+    // diff_refs.base_sha is already the merge base; start_sha is the target branch tip
+    const snapshot: DiffSnapshot = { prNumber, headSha, baseSha, mergeBaseSha: baseSha, files };
+    this.diffSnapshots.set(cacheKey, snapshot);
+    return snapshot;
+  }
+
+  async getFileContent(filePath: string, ref: string): Promise<string | undefined> {
+    try {
+      const { data } = await this.request<{ content: string; encoding: string }>(
+        'GET',
+        `/projects/${this.project()}/repository/files/${encodeURIComponent(filePath)}?ref=${encodeURIComponent(ref)}`
+      );
+      return Buffer.from(data.content, data.encoding === 'base64' ? 'base64' : 'utf8').toString('utf8');
+    } catch (err) {
+      if (err instanceof Error && /failed \(404\)/.test(err.message)) {
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
+  async submitReviewComment(prNumber: number, filePath: string, body: string, line: number): Promise<void> {
+    const mr = await this.getMergeRequest(prNumber);
+    if (!mr.diff_refs) {
+      throw new Error(`Merge request !${prNumber} has no diff refs yet; try again once GitLab has processed it.`);
+    }
+    const snapshot = await this.getDiffSnapshot(prNumber);
+    await this.request('POST', this.mergeRequestPath(prNumber, '/discussions'), {
+      body,
+      position: {
+        position_type: 'text',
+        base_sha: mr.diff_refs.base_sha,
+        start_sha: mr.diff_refs.start_sha,
+        head_sha: mr.diff_refs.head_sha,
+        old_path: oldPathOf(snapshot, filePath),
+        new_path: filePath,
+        new_line: line,
+      },
+    });
+  }
+
+  async getReviewComments(prNumber: number): Promise<ReviewComment[]> {
+    const mr = await this.getMergeRequest(prNumber);
+    const comments: ReviewComment[] = [];
+    for await (const page of this.paginate<GitLabDiscussion>(this.mergeRequestPath(prNumber, '/discussions'), 100)) {
+      for (const discussion of page.items) {
+        // Replies carry the position of the note that started the discussion
+        const position = discussion.notes[0]?.position;
+        if (!position?.new_line) {
+          continue;
+        }
+        for (const note of discussion.notes.filter((n) => !n.system)) {
+          comments.push({
+            filePath: position.new_path,
+            line: position.new_line,
+            author: note.author.username,
+            body: note.body,
+            createdAt: note.created_at,
+            url: mr.web_url,
+          });
+        }
+      }
+    }
+    return comments;
+  }
+
+  /**
+   * GitLab has no single "create review" call, so line comments are added as
+   * draft notes and published together. APPROVE also approves the MR;
+   * REQUEST_CHANGES has no REST equivalent and is posted as a comment. If a
+   * draft is rejected, the ones already created are deleted again, so they are
+   * not published with the user's next review.
+   */
+  async submitReview(prNumber: number, review: ReviewSubmission): Promise<string> {
+    const mr = await this.getMergeRequest(prNumber);
+    if (!mr.diff_refs) {
+      throw new Error(`Merge request !${prNumber} has no diff refs yet; try again once GitLab has processed it.`);
+    }
+    if (mr.diff_refs.head_sha !== review.commitSha) {
+      throw new Error(`Merge request !${prNumber} has new commits since it was reviewed. Re-run the review before publishing.`);
+    }
+
+    const snapshot = review.comments.length > 0 ? await this.getDiffSnapshot(prNumber) : undefined;
+    const drafts: number[] = [];
+    try {
+      for (const comment of review.comments) {
+        // GitLab suggestions are anchored on the commented line and reach back with `-N`
+        const linesAbove = comment.line - (comment.startLine ?? comment.line);
+        const note =
+          comment.suggestion !== undefined
+            ? `${comment.body}\n\n${fencedBlock(comment.suggestion, `suggestion:-${linesAbove}+0`)}`
+            : comment.body;
+        const { data } = await this.request<{ id: number }>('POST', this.mergeRequestPath(prNumber, '/draft_notes'), {
+          note,
+          position: {
+            position_type: 'text',
+            base_sha: mr.diff_refs.base_sha,
+            start_sha: mr.diff_refs.start_sha,
+            head_sha: mr.diff_refs.head_sha,
+            old_path: snapshot ? oldPathOf(snapshot, comment.filePath) : comment.filePath,
+            new_path: comment.filePath,
+            new_line: comment.line,
+          },
+        });
+        drafts.push(data.id);
+      }
+    } catch (err) {
+      for (const id of drafts) {
+        await this.request('DELETE', this.mergeRequestPath(prNumber, `/draft_notes/${id}`)).catch(() => undefined);
+      }
+      throw err;
+    }
+    if (review.comments.length > 0) {
+      await this.request('POST', this.mergeRequestPath(prNumber, '/draft_notes/bulk_publish'));
+    }
+    await this.request('POST', this.mergeRequestPath(prNumber, '/notes'), { body: review.body });
+    if (review.event === 'APPROVE') {
+      await this.request('POST', this.mergeRequestPath(prNumber, '/approve'), { sha: review.commitSha });
+    }
+    return mr.web_url;
+  }
+
+  async getMergeStatus(prNumber: number): Promise<MergeStatus> {
+    const mr = await this.getMergeRequest(prNumber, { include_diverged_commits_count: 'true' });
+
+    // Pipeline jobs stand in for GitHub status checks
+    const statusChecks: StatusCheck[] = [];
+    if (mr.head_pipeline) {
+      try {
+        const { data: jobs } = await this.request<GitLabJob[]>(
+          'GET',
+          `/projects/${this.project()}/pipelines/${mr.head_pipeline.id}/jobs?per_page=100`
+        );
+        for (const job of jobs) {
+          statusChecks.push({
+            name: `${job.stage} / ${job.name}`,
+            status: toCheckStatus(job.status, job.allow_failure),
+            description: job.status,
+            conclusion: job.status,
+            durationMs: job.duration != null ? Math.round(job.duration * 1000) : undefined,
+            detailsUrl: job.web_url,
+          });
+        }
+      } catch {
+        statusChecks.push({
+          name: 'pipeline',
+          status: toCheckStatus(mr.head_pipeline.status, false),
+          description: mr.head_pipeline.status,
+          conclusion: mr.head_pipeline.status,
+          detailsUrl: mr.head_pipeline.web_url,
+        });
+      }
+    }
+
+    // diverged_commits_count is how far the target branch has moved on; the MR's own commits are the ahead count
+    let aheadBy = 0;
+    try {
+      for await (const page of this.paginate<{ id: string }>(this.mergeRequestPath(prNumber, '/commits'), 100)) {
+        aheadBy += page.items.length;
+      }
+    } catch {
+      // Leave ahead count unknown
+    }
+
+    let allowedMethods: MergeMethod[] = ['merge', 'squash'];
+    let project: GitLabProject = {};
+    try {
+      project = (await this.request<GitLabProject>('GET', `/projects/${this.project()}`)).data;
+      if (project.squash_option === 'never') {
+        allowedMethods = ['merge'];
+      } else if (project.squash_option === 'always') {
+        allowedMethods = ['squash'];
+      }
+    } catch {
+      // Fallback to merge and squash
+    }
+
+    const mergeableState = toMergeableState(mr);
+    const status = {
+      headSha: mr.diff_refs?.head_sha ?? mr.sha,
+      mergeable: mergeableState === 'clean',
+      mergeableState,
+      merged: mr.state === 'merged',
+      mergedBy: (mr.merge_user ?? mr.merged_by)?.username,
+      mergedAt: mr.merged_at ?? undefined,
+      // Fast-forward merges leave no merge commit; the head commit is then the last one on the target
+      mergeCommitSha: mr.state === 'merged' ? mr.merge_commit_sha ?? mr.squash_commit_sha ?? mr.sha : undefined,
+      behindBy: mr.diverged_commits_count ?? 0,
+      aheadBy,
+      allowedMethods,
+      statusChecks,
+      requirements: await this.getMergeRequirements(prNumber, project, statusChecks),
+      autoMergeAllowed: mr.head_pipeline != null, // GitLab only queues a merge behind a pipeline
+      autoMerge: toAutoMerge(mr),
+    };
+    const blockingReasons = describeMergeBlockers(status);
+    const detailed = DETAILED_STATUS_REASONS[mr.detailed_merge_status ?? ''];
+    if (detailed && !status.merged) {
+      blockingReasons.push(detailed);
+    }
+    return { ...status, blockingReasons, warnings: describeMergeWarnings(status) };
+  }
+
+  /**
+   * Approval rules are a paid GitLab feature; on other tiers the approvals
+   * endpoints report nothing required and the MR is only gated by the pipeline.
+   */
+  private async getMergeRequirements(
+    prNumber: number,
+    project: GitLabProject,
+    statusChecks: StatusCheck[]
+  ): Promise<MergeRequirements> {
+    let requiredApprovals = 0;
+    let reviewRequired = false;
+    let approvedBy: string[] = [];
+    try {
+      const { data } = await this.request<GitLabApprovals>('GET', this.mergeRequestPath(prNumber, '/approvals'));
+      requiredApprovals = data.approvals_required ?? 0;
+      reviewRequired = (data.approvals_left ?? 0) > 0;
+      approvedBy = (data.approved_by ?? []).map((a) => a.user.username);
+    } catch {
+      // Leave approvals empty
+    }
+
+    let codeOwnerReviewRequired = false;
+    try {
+      const { data } = await this.request<GitLabApprovalState>('GET', this.mergeRequestPath(prNumber, '/approval_state'));
+      codeOwnerReviewRequired = (data.rules ?? []).some((rule) => rule.rule_type === 'code_owner');
+    } catch {
+      // Not available on every tier
+    }
+
+    let changesRequestedBy: string[] = [];
+    try {
+      const { data } = await this.request<GitLabReviewer[]>('GET', this.mergeRequestPath(prNumber, '/reviewers'));
+      changesRequestedBy = data.filter((r) => r.state === 'requested_changes').map((r) => r.user.username);
+    } catch {
+      // Reviewer states need GitLab 16.9+
+    }
+
+    // "Pipelines must succeed" makes every job that may not fail a required check
+    const requiredChecks = project.only_allow_merge_if_pipeline_succeeds
+      ? statusChecks.filter((check) => check.status !== 'neutral').map((check) => check.name)
+      : [];
+
+    return {
+      requiredApprovals,
+      approvals: approvedBy.length,
+      approvedBy,
+      changesRequestedBy,
+      reviewRequired,
+      codeOwnerReviewRequired,
+      requiredChecks,
+      requiresUpToDate: project.merge_method === 'ff' || project.merge_method === 'rebase_merge',
+      canBypass: false,
+    };
+  }
+
+  async mergePR(
+    prNumber: number,
+    method: MergeMethod,
+    commitTitle?: string,
+    commitMessage?: string
+  ): Promise<MergeResult> {
+    if (method === 'rebase') {
+      return {
+        success: false,
+        message: 'GitLab configures fast-forward/rebase merges per project. Use merge or squash instead.',
+      };
+    }
+
+    const message = [commitTitle, commitMessage].filter(Boolean).join('\n\n') || undefined;
+    try {
+      const { data } = await this.request<GitLabMergeRequest>('PUT', this.mergeRequestPath(prNumber, '/merge'), {
+        squash: method === 'squash',
+        merge_commit_message: method === 'merge' ? message : undefined,
+        squash_commit_message: method === 'squash' ? message : undefined,
+      });
+      return {
+        success: data.state === 'merged',
+        sha: data.merge_commit_sha ?? data.squash_commit_sha ?? undefined,
+        message: data.state === 'merged' ? 'Merge request merged' : `Merge request is ${data.state}`,
+      };
+    } catch (err) {
+      const errMessage = err instanceof Error ? err.message : 'Unknown merge error';
+      return {
+        success: false,
+        message: errMessage,
+      };
+    }
+  }
+
+  async createPR(request: NewPullRequest): Promise<PullRequest> {
+    const { data } = await this.request<GitLabMergeRequest>('POST', `/projects/${this.project()}/merge_requests`, {
+      source_branch: request.headBranch,
+      target_branch: request.baseBranch,
+      title: request.draft ? `Draft: ${request.title}` : request.title,
+      description: request.body,
+    });
+    return toPullRequest(data);
+  }
+
+  async getCommits(prNumber: number): Promise<PullRequestCommit[]> {
+    const commits: PullRequestCommit[] = [];
+    for await (const page of this.paginate<GitLabCommit>(this.mergeRequestPath(prNumber, '/commits'), 100)) {
+      for (const c of page.items) {
+        commits.push({ sha: c.id, message: c.message, authorName: c.author_name, authorEmail: c.author_email });
+      }
+    }
+    // GitLab lists MR commits newest first
+    return commits.reverse();
+  }
+
+  async getLinkedIssues(prNumber: number): Promise<LinkedIssue[]> {
+    const issues: LinkedIssue[] = [];
+    for await (const page of this.paginate<GitLabIssue>(this.mergeRequestPath(prNumber, '/closes_issues'), 100)) {
+      issues.push(...page.items.map((issue) => ({ number: issue.iid, title: issue.title })));
+    }
+    return issues;
+  }
+
+  async getHeadSha(prNumber: number): Promise<string> {
+    return (await this.getMergeRequest(prNumber)).sha;
+  }
+
+  /** GitLab's API can only rebase a source branch; merging the target in is a local operation. */
+  async updateBranch(prNumber: number, method: BranchUpdateMethod, expectedHeadSha: string): Promise<MergeResult> {
+    if (method === 'merge') {
+      return {
+        success: false,
+        message: 'GitLab can only rebase a merge request branch through its API. Choose rebase instead.',
+      };
+    }
+
+    try {
+      const mr = await this.getMergeRequest(prNumber);
+      if (mr.sha !== expectedHeadSha) {
+        return { success: false, message: 'The branch has new commits since its status was loaded. Refresh and try again.' };
+      }
+      await this.request('PUT', this.mergeRequestPath(prNumber, '/rebase'));
+      return { success: true, message: 'Rebase scheduled' };
+    } catch (err) {
+      const errMessage = err instanceof Error ? err.message : 'Unknown branch update error';
+      return {
+        success: false,
+        message: errMessage,
+      };
+    }
+  }
+
+  /** "Merge when pipeline succeeds"; GitLab merges at once if the pipeline has already passed. */
+  async enableAutoMerge(prNumber: number, method: MergeMethod, commitTitle?: string): Promise<MergeResult> {
+    if (method === 'rebase') {
+      return {
+        success: false,
+        message: 'GitLab configures fast-forward/rebase merges per project. Use merge or squash instead.',
+      };
+    }
+
+    try {
+      const { data } = await this.request<GitLabMergeRequest>('PUT', this.mergeRequestPath(prNumber, '/merge'), {
+        merge_when_pipeline_succeeds: true,
+        squash: method === 'squash',
+        merge_commit_message: method === 'merge' ? commitTitle : undefined,
+        squash_commit_message: method === 'squash' ? commitTitle : undefined,
+      });
+      if (data.state === 'merged') {
+        return {
+          success: true,
+          sha: data.merge_commit_sha ?? data.squash_commit_sha ?? undefined,
+          message: 'Merge request merged',
+        };
+      }
+      return {
+        success: data.merge_when_pipeline_succeeds === true,
+        message: data.merge_when_pipeline_succeeds ? 'Merge when pipeline succeeds enabled' : `Merge request is ${data.state}`,
+      };
+    } catch (err) {
+      const errMessage = err instanceof Error ? err.message : 'Unknown auto-merge error';
+      return {
+        success: false,
+        message: errMessage,
+      };
+    }
+  }
+
+  async disableAutoMerge(prNumber: number): Promise<MergeResult> {
+    try {
+      await this.request('POST', this.mergeRequestPath(prNumber, '/cancel_merge_when_pipeline_succeeds'));
+      return { success: true, message: 'Merge when pipeline succeeds cancelled' };
+    } catch (err) {
+      const errMessage = err instanceof Error ? err.message : 'Unknown auto-merge error';
+      return {
+        success: false,
+        message: errMessage,
+      };
+    }
+  }
+
+  async getHeadFork(prNumber: number): Promise<HeadFork | undefined> {
+    const mr = await this.getMergeRequest(prNumber);
+    if (mr.source_project_id === undefined || mr.source_project_id === mr.target_project_id) {
+      return undefined;
+    }
+    const { data: fork } = await this.request<GitLabProject>('GET', `/projects/${mr.source_project_id}`);
+    if (!fork.http_url_to_repo || !fork.namespace) {
+      throw new Error(`The fork of merge request !${prNumber} is not accessible.`);
+    }
+    return { owner: fork.namespace.full_path, cloneUrl: fork.http_url_to_repo };
+  }
+
+  async deleteHeadBranch(prNumber: number): Promise<boolean> {
+    const mr = await this.getMergeRequest(prNumber);
+    if (mr.source_project_id !== mr.target_project_id) {
+      return false; // Fork branches belong to their owner
+    }
+    try {
+      await this.request(
+        'DELETE',
+        `/projects/${this.project()}/repository/branches/${encodeURIComponent(mr.source_branch)}`
+      );
+      return true;
+    } catch (err) {
+      // Already removed, e.g. by "Delete source branch" on merge
+      if (err instanceof Error && /failed \(404\)/.test(err.message)) {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  async commentOnIssue(issueNumber: number, body: string): Promise<void> {
+    await this.request('POST', `/projects/${this.project()}/issues/${issueNumber}/notes`, { body });
+  }
+
+  async closeIssue(issueNumber: number): Promise<boolean> {
+    const path = `/projects/${this.project()}/issues/${issueNumber}`;
+    const { data: issue } = await this.request<GitLabIssue>('GET', path);
+    if (issue.state === 'closed') {
+      return false;
+    }
+    await this.request('PUT', path, { state_event: 'close' });
+    return true;
+  }
+
+  // ──────────────────────────── HTTP ────────────────────────────
+
+  private project(): string {
+    if (!this.projectPath) {
+      throw new Error('Unable to determine GitLab project. Please open a GitLab repository in VS Code.');
+    }
+    return encodeURIComponent(this.projectPath);
+  }
+
+  private mergeRequestPath(iid: number, suffix = ''): string {
+    return `/projects/${this.project()}/merge_requests/${iid}${suffix}`;
+  }
+
+  private async getMergeRequest(iid: number, query: Record<string, string> = {}): Promise<GitLabMergeRequest> {
+    const search = new URLSearchParams(query).toString();
+    const { data } = await this.request<GitLabMergeRequest>(
+      'GET',
+      this.mergeRequestPath(iid) + (search ? `?${search}` : '')
+    );
+    return data;
+  }
+
+  private async *paginate<T>(path: string, perPage: number): AsyncGenerator<{ items: T[]; hasMore: boolean }> {
+    let page = '1';
+    while (page) {
+      const separator = path.includes('?') ? '&' : '?';
+      const { data, headers } = await this.request<T[]>('GET', `${path}${separator}per_page=${perPage}&page=${page}`);
+      page = headers.get('x-next-page') ?? '';
+      yield { items: data, hasMore: page !== '' };
+    }
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<{ data: T; headers: Headers }> {
+    const token = await this.options.getToken();
+    const url = `${this.options.baseUrl.replace(/\/+$/, '')}/api/v4${path}`;
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'PRIVATE-TOKEN': token,
+        Accept: 'application/json',
+        ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      let detail = response.statusText;
+      try {
+        const payload = (await response.json()) as { message?: unknown; error?: unknown };
+        detail = JSON.stringify(payload.message ?? payload.error ?? payload);
+      } catch {
+        // Keep the status text
+      }
+      throw new Error(`GitLab API ${method} ${path} failed (${response.status}): ${detail}`);
+    }
+
+    const data = response.status === 204 ? (undefined as T) : ((await response.json()) as T);
+    return { data, headers: response.headers };
+  }
+}
+
+function toPullRequest(mr: GitLabMergeRequest): PullRequest {
+  return {
+    number: mr.iid,
+    title: mr.title,
+    author: mr.author?.username ?? 'unknown',
+    url: mr.web_url,
+    headBranch: mr.source_branch,
+    baseBranch: mr.target_branch,
+    changedFilesCount: parseInt(mr.changes_count ?? '0', 10) || 0,
+    createdAt: mr.created_at,
+    autoMerge: toAutoMerge(mr),
+    body: mr.description ?? undefined,
+    fromFork: mr.source_project_id !== undefined && mr.source_project_id !== mr.target_project_id,
+    draft: mr.draft ?? false,
+    labels: mr.labels ?? [],
+    requestedReviewers: (mr.reviewers ?? []).map((user) => user.username),
+    assignees: (mr.assignees ?? []).map((user) => user.username),
+    mergeableState: toMergeableState(mr),
+    updatedAt: mr.updated_at,
+  };
+}
+
+function toAutoMerge(mr: GitLabMergeRequest): AutoMerge | undefined {
+  return mr.merge_when_pipeline_succeeds
+    ? { method: mr.squash ? 'squash' : 'merge', enabledBy: mr.merge_user?.username, source: 'provider' }
+    : undefined;
+}
+
+/** The file's path on the target branch, which note positions need for renamed files. */
+function oldPathOf(snapshot: DiffSnapshot, filePath: string): string {
+  const [file] = splitUnifiedDiff(snapshot.files.get(filePath) ?? '');
+  return file && file.oldPath !== '/dev/null' ? file.oldPath : filePath;
+}
+
+function toChangedFile(diff: GitLabDiff): ChangedFile {
+  const status: ChangedFile['status'] = diff.new_file
+    ? 'added'
+    : diff.deleted_file
+    ? 'deleted'
+    : diff.renamed_file
+    ? 'renamed'
+    : 'modified';
+  const lines = diff.diff.split('\n');
+  return {
+    filePath: diff.deleted_file ? diff.old_path : diff.new_path,
+    status,
+    additions: lines.filter((l) => l.startsWith('+')).length,
+    deletions: lines.filter((l) => l.startsWith('-')).length,
+    previousPath: diff.renamed_file ? diff.old_path : undefined,
+  };
+}
+
+/** GitLab returns hunks only; prepend git-style headers so DiffEngine can parse them. */
+function toUnifiedDiff(diff: GitLabDiff): string {
+  const header = [`diff --git a/${diff.old_path} b/${diff.new_path}`];
+  if (diff.new_file) {
+    header.push('new file mode 100644');
+  } else if (diff.deleted_file) {
+    header.push('deleted file mode 100644');
+  } else if (diff.renamed_file) {
+    header.push(`rename from ${diff.old_path}`, `rename to ${diff.new_path}`);
+  }
+  header.push(
+    `--- ${diff.new_file ? '/dev/null' : `a/${diff.old_path}`}`,
+    `+++ ${diff.deleted_file ? '/dev/null' : `b/${diff.new_path}`}`
+  );
+  return `${header.join('\n')}\n${diff.diff.replace(/\n*$/, '\n')}`;
+}
+
+function toCheckStatus(status: string, allowFailure: boolean): StatusCheck['status'] {
+  switch (status) {
+    case 'success':
+      return 'success';
+    case 'failed':
+      return allowFailure ? 'neutral' : 'failure';
+    case 'canceled':
+      return 'failure';
+    case 'skipped':
+    case 'manual':
+      return 'neutral';
+    default:
+      return 'pending';
+  }
+}
+
+function toMergeableState(mr: GitLabMergeRequest): MergeStatus['mergeableState'] {
+  if (mr.has_conflicts) {
+    return 'dirty';
+  }
+  switch (mr.detailed_merge_status ?? mr.merge_status) {
+    case 'mergeable':
+    case 'can_be_merged':
+      return 'clean';
+    case 'conflict':
+    case 'broken_status':
+    case 'cannot_be_merged':
+      return 'dirty';
+    case 'checking':
+    case 'unchecked':
+    case 'preparing':
+    case 'cannot_be_merged_recheck':
+    case undefined:
+      return 'unknown';
+    default:
+      return 'blocked';
+  }
+}
@@ -0,0 +1,306 @@
+import * as vscode from 'vscode';
+import {
+  IScmAdapter,
+  IScmRouter,
+  ScmProvider,
+  RepositoryRef,
+  PullRequest,
+  PullRequestPage,
+  ChangedFileList,
+  DiffSnapshot,
+  MergeStatus,
+  MergeMethod,
+  MergeResult,
+  ReviewSubmission,
+  BranchUpdateMethod,
+  PullRequestCommit,
+  LinkedIssue,
+  NewPullRequest,
+  PRSortOrder,
+  ReviewComment,
+  HeadFork,
+} from '../types';
+import { GitHubAdapter } from './githubAdapter';
+import { GitLabAdapter } from './gitlabAdapter';
+import { discoverRemotes, parseRemoteUrl, hostOf } from './gitRemote';
+
+const GITLAB_TOKEN_KEY = 'prism.gitlabToken';
+const SELECTED_REPOSITORY_KEY = 'prism.selectedRepository';
+
+/**
+ * Routes every SCM call to the GitHub or GitLab adapter for the active
+ * repository. The active repository is the one picked with
+ * `prism.selectRepository` (remembered per workspace), else the first
+ * `origin` remote on a supported host.
+ */
+export class ScmRouter implements IScmRouter {
+  private active: { repository: RepositoryRef; adapter: IScmAdapter } | undefined;
+  private readonly adapters = new Map<string, IScmAdapter>();
+
+  constructor(
+    private readonly secrets: vscode.SecretStorage,
+    private readonly workspaceState: vscode.Memento
+  ) {}
+
+  async getProvider(): Promise<ScmProvider> {
+    return (await this.resolve()).repository.provider;
+  }
+
+  async getRepository(): Promise<RepositoryRef> {
+    return (await this.resolve()).repository;
+  }
+
+  /** Forget the detected remote and the adapters, so the next call re-detects it with the current settings. */
+  reset(): void {
+    this.active = undefined;
+    this.adapters.clear();
+  }
+
+  /** Every repository/remote pair in the workspace whose host PRism can talk to. */
+  async listRepositories(): Promise<RepositoryRef[]> {
+    const repositories: RepositoryRef[] = [];
+    for (const remote of await discoverRemotes()) {
+      const location = parseRemoteUrl(remote.url);
+      const provider = location ? detectProvider(location.host) : undefined;
+      if (location && provider) {
+        repositories.push({
+          provider,
+          host: location.host,
+          owner: location.owner,
+          repo: location.repo,
+          remoteName: remote.remoteName,
+          rootPath: remote.rootPath,
+        });
+      }
+    }
+    return repositories;
+  }
+
+  /**
+   * One repository per local checkout: the selected remote for the checkout it
+   * belongs to, otherwise `origin`, otherwise the checkout's first remote.
+   */
+  async getActiveRepositories(): Promise<RepositoryRef[]> {
+    const selected = this.workspaceState.get<RepositoryRef>(SELECTED_REPOSITORY_KEY);
+    const byRoot = new Map<string, RepositoryRef[]>();
+    for (const repository of await this.listRepositories()) {
+      byRoot.set(repository.rootPath, [...(byRoot.get(repository.rootPath) ?? []), repository]);
+    }
+    return [...byRoot.values()].map(
+      (candidates) =>
+        candidates.find((r) => selected && isSameRemote(r, selected)) ??
+        candidates.find((r) => r.remoteName === 'origin') ??
+        candidates[0]
+    );
+  }
+
+  /** Make `repository` the active one and remember the choice for this workspace. */
+  async selectRepository(repository: RepositoryRef): Promise<void> {
+    await this.workspaceState.update(SELECTED_REPOSITORY_KEY, repository);
+    await this.useRepository(repository);
+  }
+
+  /** Switch the active repository for this session without changing the remembered choice. */
+  async useRepository(repository: RepositoryRef): Promise<void> {
+    if (this.active && isSameRemote(this.active.repository, repository)) {
+      return;
+    }
+    this.active = { repository, adapter: await this.adapterFor(repository) };
+  }
+
+  /** An adapter bound to `repository`, independent of the active one. */
+  async adapterFor(repository: RepositoryRef): Promise<IScmAdapter> {
+    const key = repositoryKey(repository);
+    let adapter = this.adapters.get(key);
+    if (!adapter) {
+      adapter = repository.provider === 'gitlab' ? this.createGitLabAdapter(repository.host) : new GitHubAdapter();
+      await adapter.setRepository(repository);
+      this.adapters.set(key, adapter);
+    }
+    return adapter;
+  }
+
+  async setRepository(repository: RepositoryRef): Promise<void> {
+    await this.useRepository(repository);
+  }
+
+  async listOpenPRs(): Promise<PullRequest[]> {
+    return (await this.adapter()).listOpenPRs();
+  }
+
+  async *listOpenPRPages(pageSize: number, sort?: PRSortOrder): AsyncGenerator<PullRequestPage> {
+    yield* (await this.adapter()).listOpenPRPages(pageSize, sort);
+  }
+
+  async getReviewComments(prNumber: number): Promise<ReviewComment[]> {
+    return (await this.adapter()).getReviewComments(prNumber);
+  }
+
+  async getFileContent(filePath: string, ref: string): Promise<string | undefined> {
+    return (await this.adapter()).getFileContent(filePath, ref);
+  }
+
+  async getChangedFiles(prNumber: number): Promise<ChangedFileList> {
+    return (await this.adapter()).getChangedFiles(prNumber);
+  }
+
+  async getDiff(prNumber: number, filePath: string): Promise<string> {
+    return (await this.adapter()).getDiff(prNumber, filePath);
+  }
+
+  async getDiffSnapshot(prNumber: number): Promise<DiffSnapshot> {
+    return (await this.adapter()).getDiffSnapshot(prNumber);
+  }
+
+  async submitReviewComment(prNumber: number, filePath: string, body: string, line: number): Promise<void> {
+    return (await this.adapter()).submitReviewComment(prNumber, filePath, body, line);
+  }
+
+  async submitReview(prNumber: number, review: ReviewSubmission): Promise<string> {
+    return (await this.adapter()).submitReview(prNumber, review);
+  }
+
+  async getMergeStatus(prNumber: number): Promise<MergeStatus> {
+    return (await this.adapter()).getMergeStatus(prNumber);
+  }
+
+  async mergePR(
+    prNumber: number,
+    method: MergeMethod,
+    commitTitle?: string,
+    commitMessage?: string
+  ): Promise<MergeResult> {
+    return (await this.adapter()).mergePR(prNumber, method, commitTitle, commitMessage);
+  }
+
+  async createPR(request: NewPullRequest): Promise<PullRequest> {
+    return (await this.adapter()).createPR(request);
+  }
+
+  async getCommits(prNumber: number): Promise<PullRequestCommit[]> {
+    return (await this.adapter()).getCommits(prNumber);
+  }
+
+  async getLinkedIssues(prNumber: number): Promise<LinkedIssue[]> {
+    return (await this.adapter()).getLinkedIssues(prNumber);
+  }
+
+  async getCurrentUser(): Promise<string> {
+    return (await this.adapter()).getCurrentUser();
+  }
+
+  async getCurrentUserTeams(): Promise<string[]> {
+    return (await this.adapter()).getCurrentUserTeams();
+  }
+
+  async getHeadSha(prNumber: number): Promise<string> {
+    return (await this.adapter()).getHeadSha(prNumber);
+  }
+
+  async updateBranch(prNumber: number, method: BranchUpdateMethod, expectedHeadSha: string): Promise<MergeResult> {
+    return (await this.adapter()).updateBranch(prNumber, method, expectedHeadSha);
+  }
+
+  async enableAutoMerge(prNumber: number, method: MergeMethod, commitTitle?: string): Promise<MergeResult> {
+    return (await this.adapter()).enableAutoMerge(prNumber, method, commitTitle);
+  }
+
+  async disableAutoMerge(prNumber: number): Promise<MergeResult> {
+    return (await this.adapter()).disableAutoMerge(prNumber);
+  }
+
+  async getHeadFork(prNumber: number): Promise<HeadFork | undefined> {
+    return (await this.adapter()).getHeadFork(prNumber);
+  }
+
+  async deleteHeadBranch(prNumber: number): Promise<boolean> {
+    return (await this.adapter()).deleteHeadBranch(prNumber);
+  }
+
+  async commentOnIssue(issueNumber: number, body: string): Promise<void> {
+    return (await this.adapter()).commentOnIssue(issueNumber, body);
+  }
+
+  async closeIssue(issueNumber: number): Promise<boolean> {
+    return (await this.adapter()).closeIssue(issueNumber);
+  }
+
+  /** Prompt for a GitLab personal access token and store it in VS Code secret storage. */
+  async promptForGitLabToken(): Promise<string | undefined> {
+    const token = await vscode.window.showInputBox({
+      title: 'PRism: GitLab Access Token',
+      prompt: 'Personal access token with the "api" scope',
+      password: true,
+      ignoreFocusOut: true,
+    });
+    if (token) {
+      await this.secrets.store(GITLAB_TOKEN_KEY, token.trim());
+    }
+    return token?.trim();
+  }
+
+  private async adapter(): Promise<IScmAdapter> {
+    return (await this.resolve()).adapter;
+  }
+
+  private async resolve(): Promise<{ repository: RepositoryRef; adapter: IScmAdapter }> {
+    if (this.active) {
+      return this.active;
+    }
+
+    const repositories = await this.listRepositories();
+    const selected = this.workspaceState.get<RepositoryRef>(SELECTED_REPOSITORY_KEY);
+    const repository =
+      repositories.find((r) => selected && isSameRemote(r, selected)) ??
+      repositories.find((r) => r.remoteName === 'origin') ??
+      repositories[0];
+    if (!repository) {
+      throw new Error(
+        'Unable to determine the repository. Open a local GitHub or GitLab repository in VS Code, ' +
+        'or run "PRism: Select Repository".'
+      );
+    }
+
+    await this.useRepository(repository);
+    return this.active!;
+  }
+
+  private createGitLabAdapter(host: string): GitLabAdapter {
+    const config = vscode.workspace.getConfiguration('prism');
+    const gitlabUrl = config.get<string>('gitlabUrl', 'https://gitlab.com');
+    return new GitLabAdapter({
+      baseUrl: hostOf(gitlabUrl) === host ? gitlabUrl : `https://${host}`,
+      maxChangedFiles: config.get<number>('maxChangedFiles', 3000),
+      getToken: () => this.getGitLabToken(),
+    });
+  }
+
+  private async getGitLabToken(): Promise<string> {
+    const token = (await this.secrets.get(GITLAB_TOKEN_KEY)) ?? (await this.promptForGitLabToken());
+    if (!token) {
+      throw new Error('A GitLab personal access token is required. Run "PRism: Set GitLab Access Token".');
+    }
+    return token;
+  }
+}
+
+/** Maps a remote host to the SCM provider that serves it. */
+export function detectProvider(host: string): ScmProvider | undefined {
+  const config = vscode.workspace.getConfiguration('prism');
+  if (host === 'github.com' || host === hostOf(config.get<string>('githubEnterpriseUrl', ''))) {
+    return 'github';
+  }
+  const gitlabUrl = config.get<string>('gitlabUrl', 'https://gitlab.com');
+  if (host === 'gitlab.com' || host === hostOf(gitlabUrl)) {
+    return 'gitlab';
+  }
+  return undefined;
+}
+
+export function repositoryKey(repository: RepositoryRef): string {
+  return `${repository.rootPath}\0${repository.remoteName}\0${repository.host}/${repository.owner}/${repository.repo}`;
+}
+
+function isSameRemote(a: RepositoryRef, b: RepositoryRef): boolean {
+  return repositoryKey(a) === repositoryKey(b);
+}
@@ -0,0 +1,137 @@
+import { ICopilotService, PullRequest, PullRequestCommit, ChangedFile, LinkedIssue, CommitMessage } from '../types';
+
+const MAX_COMMITS = 50;
+const MAX_FILES = 40;
+const CO_AUTHOR_TRAILER = /^co-authored-by:\s*(.+?)\s*<([^>]+)>\s*$/gim;
+
+/** Everything the squash message is written from. */
+export interface SquashContext {
+  commits: PullRequestCommit[];
+  files: ChangedFile[];
+  issues: LinkedIssue[];
+}
+
+/**
+ * Writes the squash commit for a PR: a conventional-commit title and body from
+ * Copilot, followed by a `Co-authored-by` trailer for every other commit author.
+ */
+export class CommitMessageGenerator {
+  constructor(private readonly copilot: ICopilotService) {}
+
+  async generate(pr: PullRequest, context: SquashContext): Promise<CommitMessage> {
+    let message: CommitMessage;
+    try {
+      const raw = await this.copilot.ask(this.buildPrompt(pr, context));
+      const jsonStr = raw.replace(/^```(?:json)?\s*/m, '').replace(/\s*```$/m, '').trim();
+      const parsed = JSON.parse(jsonStr) as { title?: string; body?: string };
+      if (!parsed.title?.trim()) {
+        throw new Error('No title in response');
+      }
+      message = { title: withPRReference(parsed.title.trim(), pr), body: parsed.body?.trim() ?? '' };
+    } catch {
+      message = defaultSquashMessage(pr, context.commits);
+    }
+
+    const trailers = coAuthorTrailers(pr, context.commits);
+    return {
+      title: message.title,
+      body: [message.body, trailers.join('\n')].filter(Boolean).join('\n\n'),
+    };
+  }
+
+  private buildPrompt(pr: PullRequest, { commits, files, issues }: SquashContext): string {
+    const commitLines = commits
+      .slice(0, MAX_COMMITS)
+      .map((c) => `- ${c.message.split('\n')[0]}`);
+    if (commits.length > MAX_COMMITS) {
+      commitLines.push(`- … and ${commits.length - MAX_COMMITS} more`);
+    }
+    const fileLines = files
+      .slice(0, MAX_FILES)
+      .map((f) => `- ${f.filePath} (${f.status}, +${f.additions} −${f.deletions})`);
+    if (files.length > MAX_FILES) {
+      fileLines.push(`- … and ${files.length - MAX_FILES} more`);
+    }
+
+    return `Write the squash commit message for merging this pull request.
+
+PR #${pr.number}: ${pr.title}
+Branch: ${pr.headBranch} → ${pr.baseBranch}
+
+## Commits
+${commitLines.join('\n') || '- (none)'}
+
+## Changed files
+${fileLines.join('\n') || '- (none)'}
+
+## Linked issues
+${issues.map((i) => `- #${i.number} ${i.title}`).join('\n') || '- (none)'}
+
+Respond as raw JSON: {"title":"...","body":"..."}
+"title" is a Conventional Commits subject, "type(scope): summary", at most 72 characters, imperative mood.
+"body" explains what changed and why in short paragraphs or "- " bullets wrapped at 72 characters, ending with "Closes #N" for each linked issue. No co-author trailers.`;
+  }
+}
+
+/**
+ * `Co-authored-by` trailers for everyone who authored a commit on the branch
+ * or is credited in one of its trailers, except the PR author (who authors the
+ * squash commit) and bots. One trailer per email address.
+ */
+export function coAuthorTrailers(pr: PullRequest, commits: PullRequestCommit[]): string[] {
+  const seen = new Set<string>();
+  const trailers: string[] = [];
+  const add = (name: string, email: string, login?: string) => {
+    const key = email.trim().toLowerCase();
+    if (!key || seen.has(key) || login === pr.author || /\[bot\]/i.test(`${login ?? ''} ${name} ${email}`)) {
+      return;
+    }
+    seen.add(key);
+    trailers.push(`Co-authored-by: ${name} <${email.trim()}>`);
+  };
+
+  // Skip the PR author's own emails even on commits the provider could not match to an account
+  for (const commit of commits) {
+    if (commit.authorLogin === pr.author || (!commit.authorLogin && commit.authorName === pr.author)) {
+      seen.add(commit.authorEmail.trim().toLowerCase());
+    }
+  }
+  for (const commit of commits) {
+    add(commit.authorName, commit.authorEmail, commit.authorLogin);
+    for (const match of commit.message.matchAll(CO_AUTHOR_TRAILER)) {
+      add(match[1], match[2]);
+    }
+  }
+  return trailers;
+}
+
+/** The provider's own default: PR title plus a bullet per commit subject. */
+export function defaultSquashMessage(pr: PullRequest, commits: PullRequestCommit[]): CommitMessage {
+  return {
+    title: withPRReference(pr.title, pr),
+    body: commits.map((c) => `* ${c.message.split('\n')[0]}`).join('\n'),
+  };
+}
+
+/**
+ * Split an edited commit message into title and body. Lines starting with `#`
+ * are comments, as in git's own commit editor.
+ */
+export function parseCommitMessage(text: string): CommitMessage {
+  const lines = text
+    .split(/\r?\n/)
+    .filter((line) => !line.startsWith('#'));
+  const titleIndex = lines.findIndex((line) => line.trim() !== '');
+  if (titleIndex === -1) {
+    return { title: '', body: '' };
+  }
+  return {
+    title: lines[titleIndex].trim(),
+    body: lines.slice(titleIndex + 1).join('\n').trim(),
+  };
+}
+
+function withPRReference(title: string, pr: PullRequest): string {
+  const reference = pr.repository?.provider === 'gitlab' ? `!${pr.number}` : `#${pr.number}`;
+  return title.includes(reference) ? title : `${title} (${reference})`;
+}
@@ -25,7 +25,7 @@ export class DeepAnalysisEngine {
   constructor(private readonly copilot: ICopilotService) {}
 
   async analyze(
-    prNumber: number,
+    prNumber: number | undefined,
     chunks: DiffChunk[],
     changedFiles: ChangedFile[],
     mode: ReviewMode
@@ -90,7 +90,7 @@ export class DeepAnalysisEngine {
   }
 
   async compareWithModels(
-    prNumber: number,
+    prNumber: number | undefined,
     chunks: DiffChunk[],
     changedFiles: ChangedFile[],
     mode: ReviewMode,
@@ -206,7 +206,7 @@ Cover all categories: ${ANALYSIS_CATEGORIES.join(', ')}.`;
     return valid.includes(upper) ? (upper as InDepthAnalysis['qualityGrade']) : 'C';
   }
 
-  private fallbackAnalysis(prNumber: number, metrics: PRMetrics, error: string): InDepthAnalysis {
+  private fallbackAnalysis(prNumber: number | undefined, metrics: PRMetrics, error: string): InDepthAnalysis {
     return {
       prNumber,
       overallSummary: `Unable to complete deep analysis: ${error}`,
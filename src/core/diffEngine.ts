@@ -1,4 +1,17 @@
-import { IDiffEngine, DiffChunk } from '../types';
+import { IDiffEngine, ChangedFile, DiffChunk, DiffLine, FileDiff, LineRange } from '../types';
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+const LINE_KINDS: Record<string, DiffLine['kind']> = { ' ': 'context', '+': 'addition', '-': 'deletion' };
+
+interface Hunk {
+  oldStart: number;
+  oldCount: number;
+  newStart: number;
+  newCount: number;
+  body: string[]; // raw body lines, including "\ No newline at end of file"
+  lines: DiffLine[];
+}
 
 export class DiffEngine implements IDiffEngine {
   parse(diff: string): DiffChunk[] {
@@ -7,28 +20,14 @@ export class DiffEngine implements IDiffEngine {
       return chunks;
     }
 
-    const fileBlocks = diff.split(/^diff --git /m).filter(Boolean);
-
-    for (const block of fileBlocks) {
-      const lines = block.split('\n');
-      const filePathMatch = lines[0].match(/b\/(.+)$/);
-      if (!filePathMatch) {
-        continue;
-      }
-      const filePath = filePathMatch[1].trim();
-
-      // Find hunk headers (@@ -a,b +c,d @@)
-      const hunkPattern = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,(\d+))? @@/;
-      let currentHunkLines: string[] = [];
-      let currentStartLine = 0;
-      let hasAdditions = false;
-      let hasDeletions = false;
-
-      const flushHunk = () => {
-        if (currentHunkLines.length === 0) {
-          return;
+    for (const fileDiff of splitUnifiedDiff(diff)) {
+      for (const hunk of parseHunks(fileDiff.text)) {
+        if (hunk.lines.length === 0) {
+          continue;
         }
-        const content = currentHunkLines.join('\n');
+        const content = hunk.body.join('\n');
+        const hasAdditions = hunk.lines.some((line) => line.kind === 'addition');
+        const hasDeletions = hunk.lines.some((line) => line.kind === 'deletion');
         const type: DiffChunk['type'] =
           hasAdditions && hasDeletions
             ? 'modification'
@@ -37,10 +36,14 @@ export class DiffEngine implements IDiffEngine {
             : 'deletion';
 
         chunks.push({
-          filePath,
+          filePath: fileDiff.filePath,
           type,
-          startLine: currentStartLine,
-          endLine: currentStartLine + currentHunkLines.length - 1,
+          startLine: hunk.newStart,
+          endLine: hunk.newStart + Math.max(hunk.newCount - 1, 0),
+          oldStartLine: hunk.oldStart,
+          oldLineCount: hunk.oldCount,
+          newLineCount: hunk.newCount,
+          lines: hunk.lines,
           content,
           metadata: {
             containsFunction: /\b(function|def |func |=>|async |class )\b/.test(content),
@@ -51,31 +54,228 @@ export class DiffEngine implements IDiffEngine {
               ),
           },
         });
+      }
+    }
 
-        currentHunkLines = [];
-        hasAdditions = false;
-        hasDeletions = false;
-      };
+    return chunks;
+  }
+}
 
-      for (const line of lines) {
-        const hunkMatch = line.match(hunkPattern);
-        if (hunkMatch) {
-          flushHunk();
-          currentStartLine = parseInt(hunkMatch[2], 10);
-          continue;
-        }
-        if (currentStartLine > 0) {
-          currentHunkLines.push(line);
-          if (line.startsWith('+') && !line.startsWith('+++')) {
-            hasAdditions = true;
-          } else if (line.startsWith('-') && !line.startsWith('---')) {
-            hasDeletions = true;
-          }
-        }
+/**
+ * Split a multi-file unified diff into per-file sections.
+ *
+ * Hunk bodies are consumed by the line counts in their `@@` headers, so a
+ * changed line whose text happens to contain `diff --git` never starts a new file.
+ */
+export function splitUnifiedDiff(diff: string): FileDiff[] {
+  const files: FileDiff[] = [];
+  if (!diff) {
+    return files;
+  }
+
+  let current: { oldPath: string; newPath: string; lines: string[] } | undefined;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+
+  const flush = () => {
+    if (!current) {
+      return;
+    }
+    const text = current.lines.join('\n').replace(/\n+$/, '') + '\n';
+    const filePath = current.newPath === '/dev/null' ? current.oldPath : current.newPath;
+    files.push({ oldPath: current.oldPath, newPath: current.newPath, filePath, text });
+    current = undefined;
+  };
+
+  for (const line of diff.split('\n')) {
+    if (current && (oldRemaining > 0 || newRemaining > 0)) {
+      current.lines.push(line);
+      if (line.startsWith('\\')) {
+        continue; // "\ No newline at end of file"
+      }
+      if (line.startsWith('+')) {
+        newRemaining--;
+      } else if (line.startsWith('-')) {
+        oldRemaining--;
+      } else {
+        oldRemaining--;
+        newRemaining--;
       }
-      flushHunk();
+      continue;
     }
 
-    return chunks;
+    if (line.startsWith('diff --git ')) {
+      flush();
+      const paths = parseGitHeaderPaths(line.slice('diff --git '.length));
+      current = { oldPath: paths.oldPath, newPath: paths.newPath, lines: [line] };
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+
+    current.lines.push(line);
+    const hunkMatch = line.match(HUNK_HEADER);
+    if (hunkMatch) {
+      oldRemaining = hunkMatch[2] === undefined ? 1 : parseInt(hunkMatch[2], 10);
+      newRemaining = hunkMatch[4] === undefined ? 1 : parseInt(hunkMatch[4], 10);
+    } else if (line.startsWith('--- ')) {
+      current.oldPath = stripPathPrefix(line.slice(4), 'a/');
+    } else if (line.startsWith('+++ ')) {
+      current.newPath = stripPathPrefix(line.slice(4), 'b/');
+    } else if (line.startsWith('rename from ')) {
+      current.oldPath = unquotePath(line.slice('rename from '.length));
+    } else if (line.startsWith('rename to ')) {
+      current.newPath = unquotePath(line.slice('rename to '.length));
+    }
   }
+  flush();
+
+  return files;
+}
+
+/**
+ * Status and line counts of one file's section of a local diff, as the
+ * hosting APIs report them for the files of a PR.
+ */
+export function describeFileDiff({ oldPath, newPath, filePath, text }: FileDiff): ChangedFile {
+  let additions = 0;
+  let deletions = 0;
+  let inHunks = false;
+  for (const line of text.split('\n')) {
+    if (HUNK_HEADER.test(line)) {
+      inHunks = true;
+    } else if (inHunks && line.startsWith('+')) {
+      additions++;
+    } else if (inHunks && line.startsWith('-')) {
+      deletions++;
+    }
+  }
+
+  // Empty added or deleted files have no ---/+++ lines, only the mode line
+  const status: ChangedFile['status'] =
+    oldPath === '/dev/null' || /^new file mode /m.test(text)
+      ? 'added'
+      : newPath === '/dev/null' || /^deleted file mode /m.test(text)
+      ? 'deleted'
+      : oldPath !== newPath
+      ? 'renamed'
+      : 'modified';
+  return { filePath, status, additions, deletions, previousPath: status === 'renamed' ? oldPath : undefined };
+}
+
+/**
+ * New-side line range of each hunk in a single file's diff. A review comment
+ * (or a multi-line suggestion) must lie entirely within one of these.
+ */
+export function hunkRanges(fileDiff: string): LineRange[] {
+  return parseHunks(fileDiff)
+    .filter((hunk) => hunk.newCount > 0)
+    .map((hunk) => ({ start: hunk.newStart, end: hunk.newStart + hunk.newCount - 1 }));
+}
+
+/** Every hunk line of a single file's diff, in order. */
+export function diffLines(fileDiff: string): DiffLine[] {
+  return parseHunks(fileDiff).flatMap((hunk) => hunk.lines);
+}
+
+/**
+ * GitHub diff position of a new-file line, or undefined when the line is not
+ * part of the file's diff (so a comment on it would be rejected).
+ */
+export function diffPosition(fileDiff: string, newLine: number): number | undefined {
+  return diffLines(fileDiff).find((line) => line.newLine === newLine)?.position;
+}
+
+/**
+ * The hunks of a single file's diff. Bodies are consumed by their header's
+ * line counts, and every line below the first header (later headers included)
+ * advances the diff position, as GitHub counts it.
+ */
+function parseHunks(fileDiff: string): Hunk[] {
+  const hunks: Hunk[] = [];
+  let current: Hunk | undefined;
+  let oldLine = 0;
+  let newLine = 0;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+  let position = 0;
+
+  for (const line of fileDiff.split('\n')) {
+    if (current && (oldRemaining > 0 || newRemaining > 0 || line.startsWith('\\'))) {
+      position++;
+      current.body.push(line);
+      if (line.startsWith('\\')) {
+        continue; // "\ No newline at end of file"
+      }
+      // A blank line is a context line whose leading space was trimmed
+      const kind = LINE_KINDS[line[0]] ?? 'context';
+      current.lines.push({
+        kind,
+        text: line.slice(1),
+        oldLine: kind === 'addition' ? undefined : oldLine,
+        newLine: kind === 'deletion' ? undefined : newLine,
+        position,
+      });
+      if (kind !== 'addition') {
+        oldLine++;
+        oldRemaining--;
+      }
+      if (kind !== 'deletion') {
+        newLine++;
+        newRemaining--;
+      }
+      continue;
+    }
+
+    const hunkMatch = line.match(HUNK_HEADER);
+    if (hunkMatch) {
+      // The first header is position 0; later ones count as diff lines
+      if (current) {
+        position++;
+      }
+      current = {
+        oldStart: parseInt(hunkMatch[1], 10),
+        oldCount: hunkMatch[2] === undefined ? 1 : parseInt(hunkMatch[2], 10),
+        newStart: parseInt(hunkMatch[3], 10),
+        newCount: hunkMatch[4] === undefined ? 1 : parseInt(hunkMatch[4], 10),
+        body: [],
+        lines: [],
+      };
+      hunks.push(current);
+      oldLine = current.oldStart;
+      newLine = current.newStart;
+      oldRemaining = current.oldCount;
+      newRemaining = current.newCount;
+    }
+  }
+
+  return hunks;
+}
+
+function parseGitHeaderPaths(rest: string): { oldPath: string; newPath: string } {
+  // Unambiguous when both sides are the same path: "a/<p> b/<p>"
+  const half = (rest.length - 1) / 2;
+  if (Number.isInteger(half) && rest.startsWith('a/') && rest.slice(half + 1).startsWith('b/')) {
+    const oldPath = rest.slice(2, half);
+    const newPath = rest.slice(half + 3);
+    if (oldPath === newPath) {
+      return { oldPath, newPath };
+    }
+  }
+  const match = rest.match(/^"?a\/(.+?)"? "?b\/(.+?)"?$/);
+  if (match) {
+    return { oldPath: match[1], newPath: match[2] };
+  }
+  return { oldPath: rest, newPath: rest };
+}
+
+function stripPathPrefix(raw: string, prefix: string): string {
+  const path = unquotePath(raw.replace(/\t.*$/, ''));
+  return path.startsWith(prefix) ? path.slice(prefix.length) : path;
+}
+
+function unquotePath(raw: string): string {
+  const trimmed = raw.trim();
+  return trimmed.startsWith('"') && trimmed.endsWith('"') ? trimmed.slice(1, -1) : trimmed;
 }
@@ -0,0 +1,11 @@
+import { LineRange, ReviewSuggestion } from '../types';
+
+/**
+ * Zero-based first and last editor line a finding covers. Models sometimes
+ * answer with line 0 or an `endLine` before `line`, so the range starts at the
+ * first line at the earliest and never ends before it starts.
+ */
+export function findingLines({ line, endLine }: Pick<ReviewSuggestion, 'line' | 'endLine'>): LineRange {
+  const start = Math.max(line - 1, 0);
+  return { start, end: Math.max((endLine ?? line) - 1, start) };
+}
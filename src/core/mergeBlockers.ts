@@ -0,0 +1,69 @@
+import { MergeStatus } from '../types';
+
+/**
+ * Explain why a PR cannot be merged, from its requirements and check results.
+ * Provider-specific reasons (e.g. GitLab's unresolved discussions) are added by
+ * the adapter on top of these.
+ */
+export function describeMergeBlockers(status: Omit<MergeStatus, 'blockingReasons' | 'warnings'>): string[] {
+  if (status.merged) {
+    return [];
+  }
+  const { requirements } = status;
+  const reasons: string[] = [];
+
+  if (status.mergeableState === 'dirty') {
+    reasons.push('Merge conflicts with the base branch must be resolved.');
+  }
+
+  if (requirements.changesRequestedBy.length > 0 && reviewsRequired(status)) {
+    reasons.push(changesRequested(status));
+  }
+  const missingApprovals = requirements.requiredApprovals - requirements.approvals;
+  if (missingApprovals > 0) {
+    reasons.push(
+      `Needs ${missingApprovals} more approving review(s) ` +
+      `(${requirements.approvals} of ${requirements.requiredApprovals}).`
+    );
+  } else if (requirements.codeOwnerReviewRequired && requirements.reviewRequired) {
+    reasons.push('Needs an approving review from a code owner.');
+  } else if (requirements.reviewRequired && requirements.changesRequestedBy.length === 0) {
+    reasons.push('A required review has not been given yet.');
+  }
+
+  for (const name of requirements.requiredChecks) {
+    const check = status.statusChecks.find((c) => c.name === name);
+    if (!check) {
+      reasons.push(`Required check "${name}" has not reported.`);
+    } else if (check.status === 'failure') {
+      reasons.push(`Required check "${name}" is failing${check.conclusion ? ` (${check.conclusion})` : ''}.`);
+    } else if (check.status === 'pending') {
+      reasons.push(`Required check "${name}" is still running.`);
+    }
+  }
+
+  if (requirements.requiresUpToDate && status.behindBy > 0) {
+    reasons.push(`Branch is ${status.behindBy} commit(s) behind the base branch and must be brought up to date.`);
+  }
+
+  return reasons;
+}
+
+/**
+ * What is worth knowing before merging but does not stop the provider from
+ * merging: a review asking for changes counts only where reviews are required.
+ */
+export function describeMergeWarnings(status: Omit<MergeStatus, 'blockingReasons' | 'warnings'>): string[] {
+  if (status.merged || status.requirements.changesRequestedBy.length === 0 || reviewsRequired(status)) {
+    return [];
+  }
+  return [changesRequested(status)];
+}
+
+function reviewsRequired({ requirements }: Pick<MergeStatus, 'requirements'>): boolean {
+  return requirements.requiredApprovals > 0 || requirements.reviewRequired;
+}
+
+function changesRequested({ requirements }: Pick<MergeStatus, 'requirements'>): string {
+  return `Changes requested by ${requirements.changesRequestedBy.map((u) => `@${u}`).join(', ')}.`;
+}
@@ -0,0 +1,124 @@
+import { AutoMerge, IScmRouter, MergeMethod, MergeResult, MergeStatus, PullRequest } from '../types';
+
+const POLL_INTERVAL_MS = 30_000;
+
+/** A PR PRism merges itself once it turns clean. */
+export interface MergeWatch {
+  pr: PullRequest;
+  method: MergeMethod;
+  commitTitle?: string;
+}
+
+export interface MergeWatchListener {
+  /** A watch was added or removed. */
+  onDidChange(): void;
+  /** A watch ended: merged, or given up because the PR can no longer turn clean. */
+  onDidFinish(watch: MergeWatch, result: MergeResult): void;
+}
+
+/**
+ * Merge-when-green for repositories without provider auto-merge: polls each
+ * watched PR's merge status and merges it once nothing blocks it. Watches live
+ * in memory, so they only run while this window is open.
+ */
+export class MergeWatcher {
+  private readonly watches = new Map<string, MergeWatch>(); // keyed by PR web URL
+  private timer: ReturnType<typeof setTimeout> | undefined;
+  private polling = false;
+
+  constructor(
+    private readonly scm: IScmRouter,
+    private readonly listener: MergeWatchListener,
+    private readonly intervalMs = POLL_INTERVAL_MS
+  ) {}
+
+  get(pr: PullRequest): MergeWatch | undefined {
+    return this.watches.get(pr.url);
+  }
+
+  /** The watch as the provider-neutral auto-merge state shown in the tree and panel. */
+  autoMergeFor(pr: PullRequest): AutoMerge | undefined {
+    const watch = this.get(pr);
+    return watch ? { method: watch.method, source: 'local' } : undefined;
+  }
+
+  watch(pr: PullRequest, method: MergeMethod, commitTitle?: string): void {
+    this.watches.set(pr.url, { pr, method, commitTitle });
+    this.listener.onDidChange();
+    this.schedule(0);
+  }
+
+  cancel(pr: PullRequest): boolean {
+    const removed = this.watches.delete(pr.url);
+    if (removed) {
+      this.listener.onDidChange();
+    }
+    return removed;
+  }
+
+  dispose(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+    this.watches.clear();
+  }
+
+  private schedule(delayMs = this.intervalMs): void {
+    clearTimeout(this.timer);
+    this.timer = this.watches.size > 0 && !this.polling ? setTimeout(() => this.poll(), delayMs) : undefined;
+  }
+
+  private async poll(): Promise<void> {
+    this.polling = true;
+    try {
+      for (const watch of [...this.watches.values()]) {
+        await this.check(watch);
+      }
+    } finally {
+      this.polling = false;
+      this.schedule();
+    }
+  }
+
+  private async check(watch: MergeWatch): Promise<void> {
+    const { pr } = watch;
+    let result: MergeResult | undefined;
+    try {
+      const adapter = pr.repository ? await this.scm.adapterFor(pr.repository) : this.scm;
+      const status = await adapter.getMergeStatus(pr.number);
+      const outcome = evaluate(status);
+      if (outcome === 'merge') {
+        result = await adapter.mergePR(pr.number, watch.method, watch.commitTitle);
+      } else if (outcome !== 'wait') {
+        result = outcome;
+      }
+    } catch {
+      // Network or auth hiccup: try again on the next poll
+      return;
+    }
+
+    // Skip PRs cancelled while their status was loading
+    if (result && this.watches.get(pr.url) === watch) {
+      this.watches.delete(pr.url);
+      this.listener.onDidChange();
+      this.listener.onDidFinish(watch, result);
+    }
+  }
+}
+
+function evaluate(status: MergeStatus): 'merge' | 'wait' | MergeResult {
+  if (status.merged) {
+    return { success: true, message: `Already merged${status.mergedBy ? ` by ${status.mergedBy}` : ''}` };
+  }
+  if (status.mergeableState === 'dirty') {
+    return { success: false, message: 'The branch has conflicts with its base' };
+  }
+  if (status.mergeableState === 'clean' && status.mergeable && status.blockingReasons.length === 0) {
+    return 'merge';
+  }
+  // A failed check keeps the PR from turning clean until someone pushes or re-runs it
+  const failed = status.statusChecks.find((c) => c.status === 'failure');
+  if (failed && !status.statusChecks.some((c) => c.status === 'pending')) {
+    return { success: false, message: `Check "${failed.name}" failed` };
+  }
+  return 'wait';
+}
@@ -0,0 +1,127 @@
+import { IScmAdapter, PostMergeSettings, PostMergeStep, PullRequest } from '../types';
+import { LocalGit, pullRequestRef } from '../integrations/localGit';
+
+const CLOSING_REFERENCE = /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)\s*:?\s+#(\d+)\b/gi;
+
+export interface PostMergeContext {
+  pr: PullRequest;
+  headSha: string; // PR head the merge was made from
+  mergeSha?: string;
+  commitMessage?: string; // may reference issues, e.g. a drafted squash message
+  adapter: IScmAdapter;
+  git?: LocalGit; // undefined when there is no local checkout to tidy up
+  settings: PostMergeSettings;
+}
+
+type StepOutcome = Omit<PostMergeStep, 'label'>;
+
+/**
+ * Housekeeping after a merge, in order: the remote head branch, the local
+ * checkout (base branch first, so the head branch can be deleted after
+ * switching away from it), then linked issues. A failing step is reported and
+ * the remaining steps still run.
+ */
+export async function runPostMergeSteps(ctx: PostMergeContext): Promise<PostMergeStep[]> {
+  const { pr, adapter, git, settings } = ctx;
+  const steps: PostMergeStep[] = [];
+  const step = async (label: string, run: () => Promise<StepOutcome>) => {
+    try {
+      steps.push({ label, ...(await run()) });
+    } catch (err) {
+      steps.push({ label, status: 'failed', detail: (err as Error).message });
+    }
+  };
+
+  if (settings.deleteRemoteBranch) {
+    await step(`Delete remote branch ${pr.headBranch}`, async () =>
+      (await adapter.deleteHeadBranch(pr.number))
+        ? { status: 'done' }
+        : { status: 'skipped', detail: 'Already deleted, or the branch belongs to a fork.' }
+    );
+  }
+
+  // Fork PRs are checked out as `<owner>/<branch>`, so a branch named like the head may be unrelated
+  const localBranch = git ? await git.pullRequestBranch(pr).catch(() => undefined) : undefined;
+
+  if (git && settings.updateBaseBranch) {
+    await step(`Switch to ${pr.baseBranch} and pull`, async () => {
+      const current = await git.currentBranch();
+      if (current !== localBranch && current !== pr.baseBranch) {
+        await git.fastForward(pr.baseBranch);
+        return { status: 'done', detail: `Fast-forwarded; ${current} stays checked out.` };
+      }
+      if (!(await git.isClean())) {
+        return { status: 'skipped', detail: 'The working tree has uncommitted changes.' };
+      }
+      await git.fetch(`refs/heads/${pr.baseBranch}`);
+      await git.switchTo(pr.baseBranch);
+      await git.fastForward(pr.baseBranch);
+      return { status: 'done' };
+    });
+  }
+
+  if (git && settings.deleteLocalBranch) {
+    await step(`Delete local branch ${localBranch ?? pr.headBranch}`, async () => {
+      const localSha = localBranch && (await git.branchSha(localBranch));
+      if (!localBranch || !localSha) {
+        return { status: 'skipped', detail: 'No local branch holds the PR.' };
+      }
+      if ((await git.currentBranch()) === localBranch) {
+        return { status: 'skipped', detail: 'It is checked out. Enable prism.postMerge.updateBaseBranch to switch away first.' };
+      }
+      if (localSha !== ctx.headSha) {
+        await git.fetch(pullRequestRef(pr.repository?.provider ?? 'github', pr.number));
+        if (!(await git.isAncestor(localSha, ctx.headSha))) {
+          return { status: 'skipped', detail: 'It has commits that were not part of the merged PR.' };
+        }
+      }
+      await git.deleteBranch(localBranch);
+      return { status: 'done' };
+    });
+  }
+
+  if (settings.linkedIssues !== 'none') {
+    const issues = await linkedIssueNumbers(ctx);
+    if (issues.length === 0) {
+      steps.push({ label: 'Linked issues', status: 'skipped', detail: 'No issues are linked with a closing keyword.' });
+    }
+    const reference = pr.repository?.provider === 'gitlab' ? `!${pr.number}` : `#${pr.number}`;
+    const note = `Fixed by ${reference}` + (ctx.mergeSha ? `, merged as ${ctx.mergeSha.slice(0, 7)}.` : '.');
+    for (const issue of issues) {
+      if (settings.linkedIssues === 'comment') {
+        await step(`Comment on #${issue}`, async () => {
+          await adapter.commentOnIssue(issue, note);
+          return { status: 'done' };
+        });
+      } else {
+        await step(`Close #${issue}`, async () => {
+          if (!(await adapter.closeIssue(issue))) {
+            return { status: 'skipped', detail: 'Already closed.' };
+          }
+          await adapter.commentOnIssue(issue, note);
+          return { status: 'done' };
+        });
+      }
+    }
+  }
+
+  return steps;
+}
+
+/** Issues the provider links to the PR, plus `Fixes #N`-style references in its description and commit message. */
+async function linkedIssueNumbers({ pr, adapter, commitMessage }: PostMergeContext): Promise<number[]> {
+  const numbers = new Set<number>();
+  try {
+    for (const issue of await adapter.getLinkedIssues(pr.number)) {
+      numbers.add(issue.number);
+    }
+  } catch {
+    // Fall back to the references written in the text
+  }
+  for (const text of [pr.body, commitMessage]) {
+    for (const match of (text ?? '').matchAll(CLOSING_REFERENCE)) {
+      numbers.add(parseInt(match[1], 10));
+    }
+  }
+  return [...numbers];
+}
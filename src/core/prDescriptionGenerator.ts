@@ -0,0 +1,184 @@
+import { ICopilotService, PullRequest, ChangedFile, MergeStatus, NewPullRequest, RiskReport } from '../types';
+
+const MAX_FILES = 40;
+const MAX_COMMITS = 50;
+const MAX_DIFF_CHARS = 6000;
+const MAX_DIFF_CHARS_PER_FILE = 800;
+
+/** What the description of a PR opened from a local branch is written from. */
+export interface NewPRContext {
+  headBranch: string;
+  baseBranch: string;
+  commits: string[]; // full commit messages, oldest first
+  files: ChangedFile[];
+  diffs: Map<string, string>; // filePath → that file's unified diff
+  riskReports: RiskReport[];
+  template?: string; // the repository's PR template
+}
+
+/** Writes pull request descriptions with Copilot. */
+export class PRDescriptionGenerator {
+  constructor(private readonly copilot: ICopilotService) {}
+
+  /**
+   * Title and body for a PR from a local branch, written by Copilot from its
+   * commits and diff. The body fills in the repository's PR template when there
+   * is one, and always ends with PRism's risk summary.
+   */
+  async draft(context: NewPRContext): Promise<Pick<NewPullRequest, 'title' | 'body'>> {
+    let draft: Pick<NewPullRequest, 'title' | 'body'> | undefined;
+    try {
+      const raw = await this.copilot.ask(buildDraftPrompt(context));
+      const jsonStr = raw.replace(/^```(?:json)?\s*/m, '').replace(/\s*```$/m, '').trim();
+      const parsed = JSON.parse(jsonStr) as { title?: string; body?: string };
+      if (parsed.title?.trim()) {
+        draft = { title: parsed.title.trim().split('\n')[0], body: parsed.body?.trim() ?? '' };
+      }
+    } catch {
+      // Fall through to the plain description
+    }
+    draft ??= defaultDraft(context);
+
+    const risk = riskSummary(context.riskReports);
+    return { title: draft.title, body: [draft.body, risk].filter(Boolean).join('\n\n') };
+  }
+
+  /**
+   * Body for a PR that reverts `pr`: what is rolled back, the likely impact of
+   * rolling it back, and what to check before the change lands again.
+   */
+  async revert(pr: PullRequest, status: MergeStatus, files: ChangedFile[]): Promise<string> {
+    const reference = prReference(pr);
+    const header =
+      `Reverts ${reference}` +
+      (status.mergeCommitSha ? ` (${status.mergeCommitSha.slice(0, 7)})` : '') +
+      (status.mergedBy ? `, merged by @${status.mergedBy}` : '') +
+      (status.mergedAt ? ` on ${new Date(status.mergedAt).toISOString().slice(0, 10)}` : '') +
+      '.';
+
+    const fileLines = files
+      .slice(0, MAX_FILES)
+      .map((f) => `- ${f.filePath} (${f.status}, +${f.additions} −${f.deletions})`);
+    if (files.length > MAX_FILES) {
+      fileLines.push(`- … and ${files.length - MAX_FILES} more`);
+    }
+
+    const prompt = `A merged pull request is being reverted, most likely during an incident. Write the description of the revert pull request.
+
+## Reverted pull request
+${reference}: ${pr.title}
+Branch: ${pr.headBranch} → ${pr.baseBranch}
+
+${(pr.body ?? '').slice(0, 3000) || '(no description)'}
+
+## Files it changed
+${fileLines.join('\n') || '- (none)'}
+
+Write markdown with exactly these sections:
+### Why
+One or two sentences of rationale: which behavior the original change affected that makes rolling it back the safe option. Do not invent incident details.
+### What this reverts
+Short bullets describing what goes back to its previous behavior.
+### Risk of reverting
+What depends on the reverted change, e.g. migrations, API changes or follow-up PRs.
+### Before re-landing
+A short "- [ ]" checklist.
+Respond with the markdown only.`;
+
+    try {
+      const body = (await this.copilot.ask(prompt)).replace(/^```(?:markdown|md)?\s*\n/, '').replace(/\n```\s*$/, '').trim();
+      if (body) {
+        return `${header}\n\n${body}`;
+      }
+    } catch {
+      // Fall through to the plain description
+    }
+    return `${header}\n\n### What this reverts\n\n${pr.title}\n\n` +
+      `### Before re-landing\n\n- [ ] Find and fix the cause of the problem\n- [ ] Re-open the original change with the fix`;
+  }
+}
+
+function buildDraftPrompt({ headBranch, baseBranch, commits, files, diffs, template }: NewPRContext): string {
+  const commitLines = commits.slice(0, MAX_COMMITS).map((c) => `- ${c.split('\n')[0]}`);
+  if (commits.length > MAX_COMMITS) {
+    commitLines.push(`- … and ${commits.length - MAX_COMMITS} more`);
+  }
+  const fileLines = files
+    .slice(0, MAX_FILES)
+    .map((f) => `- ${f.filePath} (${f.status}, +${f.additions} −${f.deletions})`);
+  if (files.length > MAX_FILES) {
+    fileLines.push(`- … and ${files.length - MAX_FILES} more`);
+  }
+
+  let excerpts = '';
+  for (const file of files) {
+    const excerpt = `### ${file.filePath}\n${(diffs.get(file.filePath) ?? '').slice(0, MAX_DIFF_CHARS_PER_FILE)}\n`;
+    if (excerpts.length + excerpt.length > MAX_DIFF_CHARS) {
+      break;
+    }
+    excerpts += excerpt;
+  }
+
+  const format = template
+    ? `The repository's pull request template is below. Fill in its sections, keeping its headings, checkboxes and order, and drop HTML comments that only give instructions.\n\n<template>\n${template.slice(0, 4000)}\n</template>`
+    : 'Write the description as markdown: a short summary paragraph, then a "### Changes" bullet list.';
+
+  return `Write the title and description of a pull request for these changes.
+
+Branch: ${headBranch} → ${baseBranch}
+
+## Commits
+${commitLines.join('\n') || '- (none)'}
+
+## Changed files
+${fileLines.join('\n') || '- (none)'}
+
+## Diff excerpts
+${excerpts || '(empty)'}
+
+${format}
+
+Respond as raw JSON (no code fences):
+{"title":"<imperative summary of the change, at most 72 characters>","body":"<markdown description>"}`;
+}
+
+/** The provider-style default: the only commit's message, or the branch name and one bullet per commit. */
+function defaultDraft({ headBranch, commits, template }: NewPRContext): Pick<NewPullRequest, 'title' | 'body'> {
+  if (commits.length === 1) {
+    const [subject, ...rest] = commits[0].split('\n');
+    return { title: subject.trim(), body: template ?? rest.join('\n').trim() };
+  }
+  const title = headBranch.replace(/^.*\//, '').replace(/[-_]+/g, ' ').trim();
+  const bullets = commits.map((c) => `- ${c.split('\n')[0]}`).join('\n');
+  return { title: title.charAt(0).toUpperCase() + title.slice(1), body: template ?? bullets };
+}
+
+/** Markdown summary of `RiskAnalyzer` reports: files per risk level and the riskiest files. */
+function riskSummary(reports: RiskReport[]): string {
+  if (reports.length === 0) {
+    return '';
+  }
+  const count = (level: RiskReport['level']) => reports.filter((r) => r.level === level).length;
+  const lines = [
+    '### Risk analysis',
+    '',
+    `PRism rated ${reports.length} file(s): ${count('high')} high, ${count('medium')} medium and ${count('low')} low risk.`,
+  ];
+  const riskiest = reports
+    .filter((r) => r.level !== 'low')
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 5);
+  if (riskiest.length > 0) {
+    lines.push(
+      '',
+      '| File | Risk | Reasons |',
+      '|------|------|---------|',
+      ...riskiest.map((r) => `| ${r.filePath} | ${r.level} (${r.score}/100) | ${r.reasons.join('; ')} |`)
+    );
+  }
+  return lines.join('\n');
+}
+
+function prReference(pr: PullRequest): string {
+  return pr.repository?.provider === 'gitlab' ? `!${pr.number}` : `#${pr.number}`;
+}
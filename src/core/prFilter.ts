@@ -0,0 +1,73 @@
+import { PRFilter, PRSortOrder, PullRequest } from '../types';
+
+export const DEFAULT_PR_FILTER: PRFilter = {
+  reviewRequested: false,
+  mine: false,
+  hideDrafts: false,
+  sort: 'newest',
+};
+
+export const PR_SORT_LABELS: Record<PRSortOrder, string> = {
+  newest: 'Newest',
+  oldest: 'Oldest',
+  recentlyUpdated: 'Recently updated',
+  leastRecentlyUpdated: 'Least recently updated',
+};
+
+/** Whether the filter needs the signed-in user's login. */
+export function needsCurrentUser(filter: PRFilter): boolean {
+  return filter.reviewRequested || filter.mine;
+}
+
+/** True when any filter hides PRs (the sort order alone doesn't count). */
+export function isFiltered(filter: PRFilter): boolean {
+  return filter.reviewRequested || filter.mine || filter.hideDrafts || !!filter.label || !!filter.author;
+}
+
+/**
+ * The PRs `filter` lets through. Review requests match the user directly or
+ * one of `currentTeams` ("org/team"). Logins and team names compare
+ * case-insensitively.
+ */
+export function filterPullRequests(
+  prs: PullRequest[],
+  filter: PRFilter,
+  currentUser?: string,
+  currentTeams: string[] = []
+): PullRequest[] {
+  const same = (a: string | undefined, b: string | undefined) =>
+    a !== undefined && b !== undefined && a.toLowerCase() === b.toLowerCase();
+  const requestsMe = (reviewer: string) => same(reviewer, currentUser) || currentTeams.some((team) => same(reviewer, team));
+  return prs.filter(
+    (pr) =>
+      (!filter.reviewRequested || (pr.requestedReviewers ?? []).some(requestsMe)) &&
+      (!filter.mine || same(pr.author, currentUser)) &&
+      (!filter.hideDrafts || !pr.draft) &&
+      (!filter.label || (pr.labels ?? []).includes(filter.label)) &&
+      (!filter.author || same(pr.author, filter.author))
+  );
+}
+
+/** Short summary for the sidebar's title bar, e.g. "Mine · No drafts · Oldest". */
+export function describePRFilter(filter: PRFilter): string {
+  const parts: string[] = [];
+  if (filter.reviewRequested) {
+    parts.push('Review requested');
+  }
+  if (filter.mine) {
+    parts.push('Mine');
+  }
+  if (filter.hideDrafts) {
+    parts.push('No drafts');
+  }
+  if (filter.label) {
+    parts.push(`Label: ${filter.label}`);
+  }
+  if (filter.author) {
+    parts.push(`Author: ${filter.author}`);
+  }
+  if (filter.sort !== DEFAULT_PR_FILTER.sort) {
+    parts.push(PR_SORT_LABELS[filter.sort]);
+  }
+  return parts.join(' · ');
+}
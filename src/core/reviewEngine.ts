@@ -2,6 +2,7 @@ import {
   IReviewEngine,
   ICopilotService,
   DiffChunk,
+  DiffLine,
   ChangedFile,
   ReviewResult,
   ReviewMode,
@@ -20,6 +21,23 @@ const REVIEW_MODE_PROMPTS: Record<ReviewMode, string> = {
   general: `Review comprehensively: bugs, security, performance, code quality, missing tests.`,
 };
 
+const PATCH_INSTRUCTIONS = `line/endLine are the new-file line numbers in the diff's left column (removed lines have none). "patch", if given, is the complete replacement code for lines line–endLine (no diff markers).`;
+
+const LINE_MARKERS: Record<DiffLine['kind'], string> = { context: ' ', addition: '+', deletion: '-' };
+
+/**
+ * A chunk's hunk header and lines, each prefixed with its new-file line number
+ * so findings can name lines without counting from the header.
+ */
+function numberedContent(chunk: DiffChunk): string {
+  const width = String(chunk.endLine).length;
+  const header = `@@ -${chunk.oldStartLine},${chunk.oldLineCount} +${chunk.startLine},${chunk.newLineCount} @@`;
+  const lines = chunk.lines.map(
+    (line) => `${String(line.newLine ?? '').padStart(width)} ${LINE_MARKERS[line.kind]}${line.text}`
+  );
+  return [header, ...lines].join('\n');
+}
+
 export class ReviewEngine implements IReviewEngine {
   private readonly deepEngine: DeepAnalysisEngine;
 
@@ -30,10 +48,9 @@ export class ReviewEngine implements IReviewEngine {
   buildPrompt(mode: ReviewMode, chunk: DiffChunk): string {
     const modeInstructions = REVIEW_MODE_PROMPTS[mode];
     const maxContentLength = 2000;
+    const content = numberedContent(chunk);
     const truncatedContent =
-      chunk.content.length > maxContentLength
-        ? chunk.content.slice(0, maxContentLength) + '\n... [truncated]'
-        : chunk.content;
+      content.length > maxContentLength ? content.slice(0, maxContentLength) + '\n... [truncated]' : content;
 
     return `${modeInstructions}
 
@@ -43,7 +60,8 @@ File: ${chunk.filePath} | ${chunk.type} | L${chunk.startLine}–${chunk.endLine}
 ${truncatedContent}
 \`\`\`
 
-Respond as raw JSON: {"summary":"...","riskLevel":"low|medium|high","suggestions":[{"line":<n>,"severity":"info|warning|error","message":"...","patch":"optional"}]}`;
+Respond as raw JSON: {"summary":"...","riskLevel":"low|medium|high","suggestions":[{"line":<n>,"endLine":<n>,"severity":"info|warning|error","message":"...","patch":"optional"}]}
+${PATCH_INSTRUCTIONS}`;
   }
 
   /**
@@ -63,11 +81,11 @@ Respond as raw JSON: {"summary":"...","riskLevel":"low|medium|high","suggestions
     const filePath = chunks[0].filePath;
 
     const chunkBlocks = chunks.map((c, i) => {
-      const content = c.content.slice(0, perChunkLimit);
+      const content = numberedContent(c).slice(0, perChunkLimit);
       return `[Chunk ${i + 1}] ${c.type} L${c.startLine}–${c.endLine}\n${content}`;
     }).join('\n---\n');
 
-    const prompt = `${modeInstructions}\n\nFile: ${filePath}\n\n${chunkBlocks}\n\nRespond as raw JSON array, one entry per chunk:\n[{"summary":"...","riskLevel":"low|medium|high","suggestions":[{"line":<n>,"severity":"info|warning|error","message":"..."}]}]`;
+    const prompt = `${modeInstructions}\n\nFile: ${filePath}\n\n${chunkBlocks}\n\nRespond as raw JSON array, one entry per chunk:\n[{"summary":"...","riskLevel":"low|medium|high","suggestions":[{"line":<n>,"endLine":<n>,"severity":"info|warning|error","message":"...","patch":"optional"}]}]\n${PATCH_INSTRUCTIONS}`;
 
     const getModelName = () => (this.copilot as CopilotService).getLastUsedModelName?.() ?? 'unknown';
 
@@ -155,7 +173,7 @@ Respond as raw JSON: {"summary":"...","riskLevel":"low|medium|high","suggestions
   }
 
   async deepAnalyze(
-    prNumber: number,
+    prNumber: number | undefined,
     chunks: DiffChunk[],
     changedFiles: ChangedFile[],
     mode: ReviewMode
@@ -0,0 +1,114 @@
+import { DiffSnapshot, LineRange, ReviewEvent, ReviewFinding, ReviewCommentDraft, ReviewSubmission } from '../types';
+import { diffPosition, hunkRanges } from './diffEngine';
+
+const EVENT_HEADING: Record<ReviewEvent, string> = {
+  COMMENT: 'PRism review',
+  REQUEST_CHANGES: 'PRism review — changes requested',
+  APPROVE: 'PRism review — approved',
+};
+
+/**
+ * Turn selected findings into one batched review. Findings on a line that has
+ * no diff position cannot carry a line comment, so they are listed in the
+ * review body instead. A patch becomes a suggested change only when
+ * its whole line range sits inside a single hunk.
+ */
+export function buildReviewSubmission(
+  findings: ReviewFinding[],
+  snapshot: DiffSnapshot,
+  event: ReviewEvent
+): ReviewSubmission {
+  const comments: ReviewCommentDraft[] = [];
+  const outsideDiff: ReviewFinding[] = [];
+  const rangesByFile = new Map<string, LineRange[]>();
+
+  for (const finding of findings) {
+    let ranges = rangesByFile.get(finding.filePath);
+    if (!ranges) {
+      ranges = hunkRanges(snapshot.files.get(finding.filePath) ?? '');
+      rangesByFile.set(finding.filePath, ranges);
+    }
+    const comment = toComment(finding, snapshot.files.get(finding.filePath) ?? '', ranges);
+    if (comment) {
+      comments.push(comment);
+    } else {
+      outsideDiff.push(finding);
+    }
+  }
+
+  return {
+    event,
+    body: formatBody(findings, outsideDiff, event),
+    commitSha: snapshot.headSha,
+    comments,
+  };
+}
+
+function toComment(finding: ReviewFinding, fileDiff: string, ranges: LineRange[]): ReviewCommentDraft | undefined {
+  const { suggestion } = finding;
+  const start = suggestion.line;
+  const end = Math.max(suggestion.endLine ?? start, start);
+  if (diffPosition(fileDiff, start) === undefined) {
+    return undefined;
+  }
+
+  if (suggestion.patch !== undefined && ranges.some((r) => r.start <= start && end <= r.end)) {
+    return {
+      filePath: finding.filePath,
+      startLine: end > start ? start : undefined,
+      line: end,
+      body: formatMessage(finding),
+      suggestion: suggestion.patch,
+    };
+  }
+  return { filePath: finding.filePath, line: start, body: formatComment(finding) };
+}
+
+function formatMessage({ suggestion }: ReviewFinding): string {
+  const label = suggestion.category ? `${suggestion.severity} · ${suggestion.category}` : suggestion.severity;
+  return `**${label}**: ${suggestion.message}`;
+}
+
+/** A finding whose patch cannot be a suggested change keeps it as a plain code block. */
+function formatComment(finding: ReviewFinding): string {
+  let body = formatMessage(finding);
+  if (finding.suggestion.patch) {
+    body += `\n\n${fencedBlock(finding.suggestion.patch)}`;
+  }
+  return body;
+}
+
+function formatBody(findings: ReviewFinding[], outsideDiff: ReviewFinding[], event: ReviewEvent): string {
+  const count = (severity: string) => findings.filter((f) => f.suggestion.severity === severity).length;
+  const files = new Set(findings.map((f) => f.filePath)).size;
+
+  const lines = [
+    `### ${EVENT_HEADING[event]}`,
+    '',
+    findings.length === 0
+      ? 'No findings were selected.'
+      : `${findings.length} finding(s) across ${files} file(s): ` +
+        `${count('error')} error(s), ${count('warning')} warning(s), ${count('info')} info.`,
+  ];
+
+  if (outsideDiff.length > 0) {
+    lines.push('', '#### Findings outside the diff', '');
+    for (const finding of outsideDiff) {
+      lines.push(`- \`${finding.filePath}\` L${finding.suggestion.line} — ${formatMessage(finding)}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Markdown code fence around `code` (e.g. `info = 'suggestion'` for a suggested
+ * change). The fence is longer than any backtick run in the code, so code
+ * containing ``` cannot close it early.
+ */
+export function fencedBlock(code: string, info = ''): string {
+  const longestRun = Math.max(2, ...(code.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  const text = code.replace(/\n+$/, '');
+  return `${fence}${info}\n${text}${text ? '\n' : ''}${fence}`;
+}
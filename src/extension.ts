@@ -1,12 +1,72 @@
 import * as vscode from 'vscode';
-import { GitHubAdapter } from './adapters/githubAdapter';
-import { DiffEngine } from './core/diffEngine';
+import * as path from 'path';
+import { ScmRouter, repositoryKey } from './adapters/scmRouter';
+import { listRepositoryRoots } from './adapters/gitRemote';
+import { DiffEngine, describeFileDiff, splitUnifiedDiff } from './core/diffEngine';
 import { RiskAnalyzer } from './core/riskAnalyzer';
 import { ReviewEngine } from './core/reviewEngine';
+import { buildReviewSubmission } from './core/reviewPublisher';
+import { findingLines } from './core/findingLines';
+import { MergeWatcher } from './core/mergeWatcher';
+import { CommitMessageGenerator, defaultSquashMessage, parseCommitMessage } from './core/commitMessageGenerator';
+import { runPostMergeSteps } from './core/postMerge';
+import { PRDescriptionGenerator } from './core/prDescriptionGenerator';
+import { DEFAULT_PR_FILTER, PR_SORT_LABELS, describePRFilter, isFiltered } from './core/prFilter';
 import { CopilotService } from './integrations/copilot';
+import { LocalGit, CHECKED_OUT_PR_KEY, pullRequestRef, holdsPullRequest } from './integrations/localGit';
 import { PRTreeProvider, PRTreeItem } from './providers/prTreeProvider';
-import { ReviewResultsPanel } from './providers/reviewResultsPanel';
-import { ReviewMode, PullRequest, MergeMethod } from './types';
+import { ReviewResultsPanel, describeTarget } from './providers/reviewResultsPanel';
+import { PRContentProvider, PR_SCHEME } from './providers/prContentProvider';
+import { ReviewCommentController } from './providers/reviewCommentController';
+import { ReviewDiagnostics } from './providers/reviewDiagnostics';
+import {
+  ReviewMode,
+  PullRequest,
+  LocalChanges,
+  CommitRange,
+  ReviewTarget,
+  ChangedFile,
+  MergeMethod,
+  MergeStatus,
+  AutoMerge,
+  CommitMessage,
+  PostMergeSettings,
+  LinkedIssueAction,
+  PullRequestCommit,
+  PRFilter,
+  PRSortOrder,
+  ChangedFileList,
+  ReviewEvent,
+  ReviewFinding,
+  ReviewResult,
+  DiffSnapshot,
+  BranchUpdateMethod,
+  RepositoryRef,
+} from './types';
+
+/** Targets the analysis commands accept: everything but a single PR file. */
+type AnalysisTarget = Exclude<ReviewTarget, { kind: 'pullRequestFile' }>;
+type PullRequestFileTarget = Extract<ReviewTarget, { kind: 'pullRequestFile' }>;
+
+/** What an analysis works on: the target (with its file count), changed files and per-file diffs. */
+interface TargetChanges {
+  target: AnalysisTarget;
+  files: ChangedFile[];
+  diffs: Map<string, string>; // filePath → that file's unified diff
+  warnings: string[];
+}
+
+/** Where GitHub and GitLab look for the description template of a new PR. */
+const PR_TEMPLATE_PATHS = [
+  '.github/pull_request_template.md',
+  '.github/PULL_REQUEST_TEMPLATE.md',
+  'pull_request_template.md',
+  'docs/pull_request_template.md',
+  '.gitlab/merge_request_templates/Default.md',
+];
+
+/** `<base>..<head>` (or `...`); an empty head means HEAD, as in git. */
+const COMMIT_RANGE = /^(\S+?)\.\.\.?(\S*)$/;
 
 /** Extract PullRequest from a tree item or raw PR data */
 function extractPR(arg: unknown): PullRequest | undefined {
@@ -18,30 +78,388 @@ function extractPR(arg: unknown): PullRequest | undefined {
   return undefined;
 }
 
+/** Extract a local review target passed back by the results panel */
+function extractLocalTarget(arg: unknown): LocalChanges | CommitRange | undefined {
+  const kind = (arg as { kind?: unknown } | undefined)?.kind;
+  return kind === 'workingTree' || kind === 'staged' || kind === 'range' ? (arg as LocalChanges | CommitRange) : undefined;
+}
+
+/** Warnings to surface in the review panel when the changed-file list was capped or the diff is incomplete. */
+function truncationWarnings(prNumber: number, changed: ChangedFileList, snapshot?: DiffSnapshot): string[] {
+  const warnings: string[] = [];
+  if (changed.truncated) {
+    warnings.push(
+      `PR #${prNumber} has more changed files than prism.maxChangedFiles allows. ` +
+      `Only the first ${changed.files.length} files were analyzed.`
+    );
+  }
+  const missing = snapshot?.partial ? changed.files.filter((f) => !snapshot.files.has(f.filePath)).length : 0;
+  if (missing > 0) {
+    warnings.push(
+      `The diff of PR #${prNumber} is too large to download in one piece, so it was assembled file by file. ` +
+      `${missing} file(s) without a per-file diff (binary or very large) were not analyzed.`
+    );
+  }
+  return warnings;
+}
+
 export function activate(context: vscode.ExtensionContext): void {
   // --- Dependency Injection ---
-  const github = new GitHubAdapter();
+  const scm = new ScmRouter(context.secrets, context.workspaceState);
   const diffEngine = new DiffEngine();
   const riskAnalyzer = new RiskAnalyzer();
   const copilot = new CopilotService();
   const reviewEngine = new ReviewEngine(copilot);
+  const commitMessages = new CommitMessageGenerator(copilot);
+  const descriptions = new PRDescriptionGenerator(copilot);
+  const mergeWatcher = new MergeWatcher(scm, {
+    onDidChange: () => prTreeProvider.redraw(),
+    onDidFinish: (watch, result) => {
+      if (result.success) {
+        vscode.window.showInformationMessage(`PRism: PR #${watch.pr.number} merged once its checks passed — ${result.message}.`);
+      } else {
+        vscode.window.showWarningMessage(`PRism: Stopped waiting to merge PR #${watch.pr.number} — ${result.message}.`);
+      }
+      prTreeProvider.refresh();
+    },
+  });
+
+  /** Extract the PR and switch to the repository it was listed under */
+  const targetPR = async (arg: unknown): Promise<PullRequest | undefined> => {
+    const pr = extractPR(arg);
+    if (pr?.repository) {
+      await scm.useRepository(pr.repository);
+    }
+    return pr;
+  };
+
+  /**
+   * Merge status plus what only PRism knows: a local merge-when-green watch and,
+   * when the PR conflicts with its base, the conflicting files from a local merge.
+   */
+  const loadMergeStatus = async (pr: PullRequest): Promise<MergeStatus> => {
+    const status = await scm.getMergeStatus(pr.number);
+    const autoMerge = status.autoMerge ?? mergeWatcher.autoMergeFor(pr);
+    if (status.mergeableState !== 'dirty' || status.merged) {
+      return { ...status, autoMerge };
+    }
+    try {
+      const repository = await scm.getRepository();
+      const git = LocalGit.forRepository(repository);
+      const baseSha = await git.fetch(`refs/heads/${pr.baseBranch}`);
+      const headSha = await git.fetch(pullRequestRef(repository.provider, pr.number));
+      return { ...status, autoMerge, conflicts: await git.findConflicts(baseSha, headSha) };
+    } catch (err) {
+      vscode.window.showWarningMessage(`PRism: Could not list conflicting files — ${(err as Error).message}`);
+      return { ...status, autoMerge };
+    }
+  };
+
+  /** Draft the squash commit with Copilot and let the user edit it in a document; undefined if cancelled */
+  const editSquashMessage = async (pr: PullRequest): Promise<CommitMessage | undefined> => {
+    const draft = await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `PRism: Writing squash commit message for PR #${pr.number}…`, cancellable: false },
+      async () => {
+        try {
+          const [commits, changed, issues] = await Promise.all([
+            scm.getCommits(pr.number),
+            scm.getChangedFiles(pr.number),
+            scm.getLinkedIssues(pr.number).catch(() => []), // GraphQL may be unavailable
+          ]);
+          return await commitMessages.generate(pr, { commits, files: changed.files, issues });
+        } catch (err) {
+          vscode.window.showWarningMessage(`PRism: Could not load the PR's commits — ${(err as Error).message}`);
+          return defaultSquashMessage(pr, []);
+        }
+      }
+    );
+
+    const doc = await vscode.workspace.openTextDocument({
+      language: 'git-commit',
+      content:
+        `${draft.title}\n\n${draft.body}\n\n` +
+        `# Squash commit for PR #${pr.number}: the first line is the title, lines starting with # are ignored.\n` +
+        '# Edit the message, then choose "Squash and Merge" in the PRism notification.\n',
+    });
+    await vscode.window.showTextDocument(doc, vscode.ViewColumn.Beside);
+    // Not modal, so the document stays editable while the question is open
+    const action = await vscode.window.showInformationMessage(
+      `PRism: Review the squash commit message for PR #${pr.number}, then merge.`,
+      'Squash and Merge',
+      'Cancel'
+    );
+    const message = parseCommitMessage(doc.getText());
+    if (!doc.isClosed) {
+      await vscode.window.showTextDocument(doc);
+      await vscode.commands.executeCommand('workbench.action.revertAndCloseActiveEditor');
+    }
+
+    if (action !== 'Squash and Merge') {
+      return undefined;
+    }
+    if (!message.title) {
+      vscode.window.showErrorMessage('PRism: The squash commit title is empty.');
+      return undefined;
+    }
+    return message;
+  };
+
+  // --- PR file contents for the diff editor ---
+  const prContent = vscode.workspace.registerTextDocumentContentProvider(PR_SCHEME, new PRContentProvider(scm));
 
   // --- Tree View ---
-  const prTreeProvider = new PRTreeProvider(github);
+  const prTreeProvider = new PRTreeProvider(scm, mergeWatcher, context.workspaceState);
   const treeView = vscode.window.createTreeView('prismPRList', {
     treeDataProvider: prTreeProvider,
     showCollapseAll: false,
   });
 
+  /** Save the PR list filter and show it in the view's title bar */
+  const applyPRFilter = async (filter: PRFilter) => {
+    await prTreeProvider.setFilter(filter);
+    showPRFilter(filter);
+  };
+  const showPRFilter = (filter: PRFilter) => {
+    treeView.description = describePRFilter(filter) || undefined;
+    vscode.commands.executeCommand('setContext', 'prism.prListFiltered', isFiltered(filter));
+  };
+  showPRFilter(prTreeProvider.filter);
+
+  /** Whether the branch checked out in the PR's repository holds the PR (see `holdsPullRequest`). */
+  const isCheckedOut = async (pr: PullRequest): Promise<boolean> => {
+    try {
+      const repository = pr.repository ?? (await scm.getRepository());
+      const git = LocalGit.forRepository(repository);
+      return holdsPullRequest(await git.describeBranch(await git.currentBranch()), pr, repository.remoteName);
+    } catch {
+      return false; // Not a local checkout, or git is unavailable
+    }
+  };
+
+  // --- Review findings in the editor: comment threads and Problems panel ---
+  const reviewComments = new ReviewCommentController();
+  const reviewDiagnostics = new ReviewDiagnostics();
+  const codeActions = vscode.languages.registerCodeActionsProvider({ scheme: 'file' }, reviewDiagnostics, {
+    providedCodeActionKinds: ReviewDiagnostics.providedCodeActionKinds,
+  });
+
+  /**
+   * Show a review's findings as comment threads, together with the PR's existing
+   * line comments, and as diagnostics when the reviewed commit is checked out
+   */
+  const showReviewFindings = async (pr: PullRequest, snapshot: DiffSnapshot, results: ReviewResult[]) => {
+    const findings = results.flatMap((r) => r.suggestions.map((suggestion) => ({ filePath: r.filePath, suggestion })));
+    const comments = await scm.getReviewComments(pr.number).catch(() => []);
+    const repository = pr.repository ?? (await scm.getRepository());
+    const git = LocalGit.forRepository(repository);
+    // Local files only line up with the findings when the PR branch is checked out
+    const checkedOut = await isCheckedOut(pr);
+    reviewComments.show(pr, snapshot.headSha, findings, comments, {
+      headUri: (filePath) => PRContentProvider.uri(filePath, snapshot.headSha, pr.repository),
+      localUri: checkedOut
+        ? (filePath) => vscode.Uri.joinPath(vscode.Uri.file(repository.rootPath), filePath)
+        : undefined,
+    });
+
+    if (checkedOut && (await git.headSha().catch(() => undefined)) === snapshot.headSha) {
+      await reviewDiagnostics.show(pr, snapshot.headSha, repository.rootPath, findings);
+    } else {
+      reviewDiagnostics.clear(pr);
+    }
+  };
+
   // --- Command: Open PR List ---
   const openPRList = vscode.commands.registerCommand('prism.openPRList', async () => {
     prTreeProvider.refresh();
     await vscode.commands.executeCommand('prismPRList.focus');
   });
 
+  // Adapters read their settings when created, so any PRism setting change recreates them;
+  // a provider URL change can also move repositories between providers
+  const configWatcher = vscode.workspace.onDidChangeConfiguration((e) => {
+    if (!e.affectsConfiguration('prism')) {
+      return;
+    }
+    scm.reset();
+    if (e.affectsConfiguration('prism.gitlabUrl') || e.affectsConfiguration('prism.githubEnterpriseUrl')) {
+      prTreeProvider.refresh();
+    }
+  });
+
+  // --- Command: Set GitLab Token ---
+  const setGitLabToken = vscode.commands.registerCommand('prism.setGitLabToken', async () => {
+    const token = await scm.promptForGitLabToken();
+    if (token) {
+      vscode.window.showInformationMessage('PRism: GitLab access token saved.');
+      prTreeProvider.refresh();
+    }
+  });
+
+  // --- Command: Select Repository ---
+  const selectRepository = vscode.commands.registerCommand('prism.selectRepository', async () => {
+    const repositories = await scm.listRepositories();
+    if (repositories.length === 0) {
+      vscode.window.showErrorMessage('PRism: No GitHub or GitLab remotes found in this workspace.');
+      return;
+    }
+    const current = await scm.getRepository().catch(() => undefined);
+    const picked = await vscode.window.showQuickPick(
+      repositories.map((repository) => {
+        const isCurrent = current !== undefined && repositoryKey(current) === repositoryKey(repository);
+        return {
+          label: `${isCurrent ? '$(check) ' : ''}${repository.owner}/${repository.repo}`,
+          description: `${repository.remoteName} · ${repository.host}`,
+          detail: repository.rootPath,
+          repository,
+        };
+      }),
+      { placeHolder: 'Select the repository PRism should use', matchOnDescription: true, matchOnDetail: true }
+    );
+    if (!picked) {
+      return;
+    }
+    await scm.selectRepository(picked.repository);
+    prTreeProvider.refresh();
+    vscode.window.showInformationMessage(`PRism: Using ${picked.repository.owner}/${picked.repository.repo}.`);
+  });
+
+  // --- Command: Load More PRs ---
+  const loadMorePRs = vscode.commands.registerCommand('prism.loadMorePRs', async (groupKey?: string) => {
+    if (groupKey) {
+      await prTreeProvider.loadMore(groupKey);
+    }
+  });
+
+  // --- Command: Filter PRs ---
+  const filterPRs = vscode.commands.registerCommand('prism.filterPRs', async () => {
+    const filter = prTreeProvider.filter;
+    const check = (on: boolean) => (on ? '$(check) ' : '');
+    type FilterItem = vscode.QuickPickItem & { apply?: () => Promise<PRFilter | undefined> };
+    const items: FilterItem[] = [
+      {
+        label: `${check(filter.reviewRequested)}Review requested from me`,
+        apply: async () => ({ ...filter, reviewRequested: !filter.reviewRequested }),
+      },
+      {
+        label: `${check(filter.mine)}Created by me`,
+        apply: async () => ({ ...filter, mine: !filter.mine }),
+      },
+      {
+        label: `${check(filter.hideDrafts)}Hide drafts`,
+        apply: async () => ({ ...filter, hideDrafts: !filter.hideDrafts }),
+      },
+      { label: '', kind: vscode.QuickPickItemKind.Separator },
+      {
+        label: `${check(!!filter.label)}Label…`,
+        description: filter.label,
+        apply: async () => {
+          const label = await pickFilterValue('label', prTreeProvider.loadedPullRequests.flatMap((pr) => pr.labels ?? []));
+          return label === undefined ? undefined : { ...filter, label: label || undefined };
+        },
+      },
+      {
+        label: `${check(!!filter.author)}Author…`,
+        description: filter.author,
+        apply: async () => {
+          const author = await pickFilterValue('author', prTreeProvider.loadedPullRequests.map((pr) => pr.author));
+          return author === undefined ? undefined : { ...filter, author: author || undefined };
+        },
+      },
+    ];
+    if (isFiltered(filter)) {
+      items.push(
+        { label: '', kind: vscode.QuickPickItemKind.Separator },
+        { label: '$(clear-all) Clear filters', apply: async () => ({ ...DEFAULT_PR_FILTER, sort: filter.sort }) }
+      );
+    }
+
+    const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Filter the pull request list' });
+    const next = await picked?.apply?.();
+    if (next) {
+      await applyPRFilter(next);
+    }
+  });
+
+  // --- Command: Clear PR Filters ---
+  const clearPRFilters = vscode.commands.registerCommand('prism.clearPRFilters', async () => {
+    await applyPRFilter({ ...DEFAULT_PR_FILTER, sort: prTreeProvider.filter.sort });
+  });
+
+  // --- Command: Sort PRs ---
+  const sortPRs = vscode.commands.registerCommand('prism.sortPRs', async () => {
+    const filter = prTreeProvider.filter;
+    const picked = await vscode.window.showQuickPick(
+      (Object.keys(PR_SORT_LABELS) as PRSortOrder[]).map((sort) => ({
+        label: `${sort === filter.sort ? '$(check) ' : ''}${PR_SORT_LABELS[sort]}`,
+        sort,
+      })),
+      { placeHolder: 'Sort the pull request list' }
+    );
+    if (picked) {
+      await applyPRFilter({ ...filter, sort: picked.sort });
+    }
+  });
+
+  // --- Command: Open File Diff ---
+  const openFileDiff = vscode.commands.registerCommand(
+    'prism.openFileDiff',
+    async (arg?: unknown, filePath?: string, previousPath?: string) => {
+      const pr = await targetPR(arg);
+      if (!pr || !filePath) {
+        return;
+      }
+      try {
+        const snapshot = await scm.getDiffSnapshot(pr.number);
+        const base = PRContentProvider.uri(previousPath ?? filePath, snapshot.mergeBaseSha, pr.repository);
+        const head = PRContentProvider.uri(filePath, snapshot.headSha, pr.repository);
+        const title = `${path.posix.basename(filePath)} (PR #${pr.number}: ${pr.baseBranch} ↔ ${pr.headBranch})`;
+        await vscode.commands.executeCommand('vscode.diff', base, head, title, { preview: true });
+      } catch (err) {
+        vscode.window.showErrorMessage(`PRism: Failed to open the diff of ${filePath} — ${(err as Error).message}`);
+      }
+    }
+  );
+
+  // --- Command: Open Finding ---
+  const openFinding = vscode.commands.registerCommand(
+    'prism.openFinding',
+    async (arg?: unknown, filePath?: string, line?: number) => {
+      const pr = await targetPR(arg);
+      if (!pr || !filePath) {
+        return;
+      }
+      const position = new vscode.Position(Math.max((line ?? 1) - 1, 0), 0);
+      try {
+        let uri: vscode.Uri;
+        if (await isCheckedOut(pr)) {
+          const root = pr.repository?.rootPath ?? (await scm.getRepository()).rootPath;
+          uri = vscode.Uri.joinPath(vscode.Uri.file(root), filePath);
+          try {
+            await vscode.workspace.fs.stat(uri);
+          } catch {
+            // Deleted by the PR: show its diff instead
+            await vscode.commands.executeCommand('prism.openFileDiff', pr, filePath);
+            return;
+          }
+        } else {
+          // Another branch is checked out, so the finding's line is only meaningful in the PR's head revision
+          const snapshot = await scm.getDiffSnapshot(pr.number);
+          if (/^deleted file mode /m.test(snapshot.files.get(filePath) ?? '')) {
+            await vscode.commands.executeCommand('prism.openFileDiff', pr, filePath);
+            return;
+          }
+          uri = PRContentProvider.uri(filePath, snapshot.headSha, pr.repository);
+        }
+        await vscode.window.showTextDocument(uri, { selection: new vscode.Range(position, position), preview: true });
+      } catch (err) {
+        vscode.window.showErrorMessage(`PRism: Failed to open ${filePath} — ${(err as Error).message}`);
+      }
+    }
+  );
+
   // --- Command: Review PR ---
   const reviewPR = vscode.commands.registerCommand('prism.reviewPR', async (arg?: unknown) => {
-    const pr = extractPR(arg);
+    const pr = await targetPR(arg);
     if (!pr) {
       vscode.window.showErrorMessage('PRism: No PR selected. Please select a PR from the PRism panel.');
       return;
@@ -53,13 +471,14 @@ export function activate(context: vscode.ExtensionContext): void {
       const config = vscode.workspace.getConfiguration('prism');
       const mode = (config.get<string>('reviewMode') ?? 'general') as ReviewMode;
 
-      const changedFiles = await github.getChangedFiles(pr.number);
+      const changed = await scm.getChangedFiles(pr.number);
+      const snapshot = await scm.getDiffSnapshot(pr.number);
       const allChunks = [];
       const allResults = [];
 
-      for (const file of changedFiles) {
+      for (const file of changed.files) {
         panel.showLoading(`Reviewing ${file.filePath}…`);
-        const diff = await github.getDiff(pr.number, file.filePath);
+        const diff = snapshot.files.get(file.filePath) ?? '';
         const chunks = diffEngine.parse(diff);
         allChunks.push(...chunks);
 
@@ -69,7 +488,9 @@ export function activate(context: vscode.ExtensionContext): void {
       }
 
       const riskReports = riskAnalyzer.analyze(allChunks);
-      panel.updateResults(pr, allResults, riskReports);
+      panel.updateResults({ kind: 'pullRequest', pr }, allResults, riskReports, truncationWarnings(pr.number, changed, snapshot));
+      prTreeProvider.setReview(pr, allResults, riskReports);
+      await showReviewFindings(pr, snapshot, allResults);
     } catch (err) {
       panel.showError((err as Error).message);
       vscode.window.showErrorMessage(`PRism: Review failed — ${(err as Error).message}`);
@@ -77,87 +498,210 @@ export function activate(context: vscode.ExtensionContext): void {
   });
 
   // --- Command: Review Single File ---
-  const reviewFile = vscode.commands.registerCommand('prism.reviewFile', async () => {
-    const prInput = await vscode.window.showInputBox({
-      prompt: 'Enter PR number',
-      placeHolder: '42',
-    });
-    if (!prInput) {
-      return;
-    }
-    const prNumber = parseInt(prInput, 10);
-    if (isNaN(prNumber)) {
-      vscode.window.showErrorMessage('PRism: Invalid PR number.');
-      return;
-    }
+  const reviewFile = vscode.commands.registerCommand('prism.reviewFile', async (arg?: unknown) => {
+    let target = (arg as ReviewTarget | undefined)?.kind === 'pullRequestFile' ? (arg as PullRequestFileTarget) : undefined;
+    if (!target) {
+      const prInput = await vscode.window.showInputBox({
+        prompt: 'Enter PR number',
+        placeHolder: '42',
+      });
+      if (!prInput) {
+        return;
+      }
+      const prNumber = parseInt(prInput, 10);
+      if (isNaN(prNumber)) {
+        vscode.window.showErrorMessage('PRism: Invalid PR number.');
+        return;
+      }
 
-    const files = await github.getChangedFiles(prNumber);
-    const fileItems = files.map((f) => ({ label: f.filePath, description: f.status }));
-    const selected = await vscode.window.showQuickPick(fileItems, { placeHolder: 'Select file to review' });
-    if (!selected) {
-      return;
+      const { files } = await scm.getChangedFiles(prNumber);
+      const fileItems = files.map((f) => ({ label: f.filePath, description: f.status }));
+      const selected = await vscode.window.showQuickPick(fileItems, { placeHolder: 'Select file to review' });
+      if (!selected) {
+        return;
+      }
+      target = { kind: 'pullRequestFile', prNumber, filePath: selected.label };
     }
+    const fileTarget = target;
 
     const config = vscode.workspace.getConfiguration('prism');
     const mode = (config.get<string>('reviewMode') ?? 'general') as ReviewMode;
 
     await vscode.window.withProgress(
-      { location: vscode.ProgressLocation.Notification, title: `PRism: Reviewing ${selected.label}…`, cancellable: false },
+      { location: vscode.ProgressLocation.Notification, title: `PRism: Reviewing ${fileTarget.filePath}…`, cancellable: false },
       async () => {
-        const diff = await github.getDiff(prNumber, selected.label);
+        const diff = await scm.getDiff(fileTarget.prNumber, fileTarget.filePath);
         const chunks = diffEngine.parse(diff);
         const panel = ReviewResultsPanel.createOrShow(context.extensionUri);
         const results = await reviewEngine.reviewFileChunks(chunks, mode);
         const riskReports = riskAnalyzer.analyze(chunks);
-        const prData: PullRequest = {
-          number: prNumber,
-          title: `File Review: ${selected.label}`,
-          author: '',
-          url: '',
-          headBranch: '',
-          baseBranch: '',
-          changedFilesCount: 1,
-          createdAt: new Date().toISOString(),
-        };
-        panel.updateResults(prData, results, riskReports);
+        panel.updateResults(fileTarget, results, riskReports);
       }
     );
   });
 
-  // --- Command: Generate Summary ---
-  const generateSummary = vscode.commands.registerCommand('prism.generateSummary', async (arg?: unknown) => {
-    const prFromTree = extractPR(arg);
-    let prNumber: number;
+  /** A target's changed files and per-file diffs: from the hosting API for a PR, from git alone otherwise */
+  const loadChanges = async (target: AnalysisTarget): Promise<TargetChanges> => {
+    if (target.kind === 'pullRequest') {
+      const changed = await scm.getChangedFiles(target.pr.number);
+      const snapshot = await scm.getDiffSnapshot(target.pr.number);
+      return {
+        target: { ...target, pr: { ...target.pr, changedFilesCount: changed.files.length } },
+        files: changed.files,
+        diffs: snapshot.files,
+        warnings: truncationWarnings(target.pr.number, changed, snapshot),
+      };
+    }
+
+    const git = new LocalGit(target.rootPath);
+    const diff =
+      target.kind === 'range'
+        ? await git.diffRange(target.base, target.head)
+        : await git.diffUncommitted(target.kind === 'staged');
+    const fileDiffs = splitUnifiedDiff(diff);
+    return {
+      target: { ...target, changedFilesCount: fileDiffs.length },
+      files: fileDiffs.map(describeFileDiff),
+      diffs: new Map(fileDiffs.map((file) => [file.filePath, file.text])),
+      warnings: [],
+    };
+  };
+
+  /** The target of an analysis: a local target passed by the results panel, else a PR from the tree or typed in */
+  const analysisTarget = async (arg: unknown, prompt: string): Promise<AnalysisTarget | undefined> => {
+    const local = extractLocalTarget(arg);
+    if (local) {
+      return local;
+    }
+    const prFromTree = await targetPR(arg);
     if (prFromTree) {
-      prNumber = prFromTree.number;
-    } else {
-      const prInput = await vscode.window.showInputBox({ prompt: 'Enter PR number to summarize', placeHolder: '42' });
-      if (!prInput) {
+      return { kind: 'pullRequest', pr: prFromTree };
+    }
+
+    const prInput = await vscode.window.showInputBox({ prompt, placeHolder: '42' });
+    if (!prInput) {
+      return undefined;
+    }
+    const prNumber = parseInt(prInput, 10);
+    if (isNaN(prNumber)) {
+      vscode.window.showErrorMessage('PRism: Invalid PR number.');
+      return undefined;
+    }
+    return {
+      kind: 'pullRequest',
+      pr: {
+        number: prNumber,
+        title: `PR #${prNumber}`,
+        author: '',
+        url: '',
+        headBranch: '',
+        baseBranch: '',
+        changedFilesCount: 0,
+        createdAt: new Date().toISOString(),
+      },
+    };
+  };
+
+  /** Review every changed file of a local target; git supplies the diff, so only Copilot is contacted */
+  const reviewLocalTarget = async (target: LocalChanges | CommitRange) => {
+    let panel: ReviewResultsPanel | undefined;
+    try {
+      const changes = await loadChanges(target);
+      if (changes.files.length === 0) {
+        vscode.window.showInformationMessage(
+          `PRism: Nothing to review — ${describeTarget(target)} in ${path.basename(target.rootPath)} has no changes.`
+        );
         return;
       }
-      prNumber = parseInt(prInput, 10);
-      if (isNaN(prNumber)) {
-        vscode.window.showErrorMessage('PRism: Invalid PR number.');
-        return;
+
+      panel = ReviewResultsPanel.createOrShow(context.extensionUri);
+      const config = vscode.workspace.getConfiguration('prism');
+      const mode = (config.get<string>('reviewMode') ?? 'general') as ReviewMode;
+      const allChunks = [];
+      const allResults = [];
+      for (const file of changes.files) {
+        panel.showLoading(`Reviewing ${file.filePath}…`);
+        const chunks = diffEngine.parse(changes.diffs.get(file.filePath) ?? '');
+        allChunks.push(...chunks);
+        allResults.push(...(await reviewEngine.reviewFileChunks(chunks, mode)));
+        await sleep(300);
       }
+      panel.updateResults(changes.target, allResults, riskAnalyzer.analyze(allChunks));
+    } catch (err) {
+      panel?.showError((err as Error).message);
+      vscode.window.showErrorMessage(`PRism: Review of ${describeTarget(target)} failed — ${(err as Error).message}`);
     }
+  };
+
+  /** Review a checkout's uncommitted (or only its staged) changes */
+  const reviewLocalChanges = async (kind: LocalChanges['kind'], arg: unknown) => {
+    const rootPath = await pickRepositoryRoot(arg);
+    if (!rootPath) {
+      return;
+    }
+    const branch = await new LocalGit(rootPath).currentBranch().catch(() => 'HEAD'); // no commits yet
+    await reviewLocalTarget({ kind, rootPath, branch, changedFilesCount: 0 });
+  };
+
+  // --- Command: Review Uncommitted Changes ---
+  const reviewWorkingTree = vscode.commands.registerCommand('prism.reviewWorkingTree', (arg?: unknown) =>
+    reviewLocalChanges('workingTree', arg)
+  );
+
+  // --- Command: Review Staged Changes ---
+  const reviewStaged = vscode.commands.registerCommand('prism.reviewStaged', (arg?: unknown) =>
+    reviewLocalChanges('staged', arg)
+  );
+
+  // --- Command: Review Commit Range ---
+  const reviewRange = vscode.commands.registerCommand('prism.reviewRange', async (arg?: unknown) => {
+    const passed = extractLocalTarget(arg);
+    if (passed?.kind === 'range') {
+      await reviewLocalTarget(passed);
+      return;
+    }
+
+    const rootPath = await pickRepositoryRoot(arg);
+    if (!rootPath) {
+      return;
+    }
+    const input = await vscode.window.showInputBox({
+      prompt: 'Commits to review, as <base>..<head> (branches, tags or commit SHAs)',
+      placeHolder: 'v1.2..main',
+      validateInput: (value) =>
+        COMMIT_RANGE.test(value.trim()) ? undefined : 'Enter a range such as v1.2..main or release/2.0..HEAD.',
+    });
+    const match = input?.trim().match(COMMIT_RANGE);
+    if (!match) {
+      return;
+    }
+    await reviewLocalTarget({ kind: 'range', rootPath, base: match[1], head: match[2] || 'HEAD', changedFilesCount: 0 });
+  });
+
+  // --- Command: Generate Summary ---
+  const generateSummary = vscode.commands.registerCommand('prism.generateSummary', async (arg?: unknown) => {
+    const target = await analysisTarget(arg, 'Enter PR number to summarize');
+    if (!target) {
+      return;
+    }
+    const subject = target.kind === 'pullRequest' ? 'pull request' : 'change set';
 
     await vscode.window.withProgress(
-      { location: vscode.ProgressLocation.Notification, title: `PRism: Generating summary for PR #${prNumber}…`, cancellable: false },
+      { location: vscode.ProgressLocation.Notification, title: `PRism: Generating summary for ${describeTarget(target)}…`, cancellable: false },
       async () => {
-        const files = await github.getChangedFiles(prNumber);
+        const { files, diffs } = await loadChanges(target);
         const allDiffs: string[] = [];
         for (const file of files.slice(0, 10)) {
-          const diff = await github.getDiff(prNumber, file.filePath);
+          const diff = diffs.get(file.filePath) ?? '';
           allDiffs.push(`### ${file.filePath}\n${diff.slice(0, 800)}`);
         }
-        const prompt = `You are a senior software engineer. Generate a concise structured pull request review summary.
+        const prompt = `You are a senior software engineer. Generate a concise structured ${subject} review summary.
 
 ## Changed Files
 ${allDiffs.join('\n\n')}
 
 Provide:
-1. A 2-3 sentence summary of what this PR does
+1. A 2-3 sentence summary of what this ${subject} does
 2. Key risks or concerns
 3. Recommended review focus areas
 
@@ -172,37 +716,30 @@ Format as markdown.`;
 
   // --- Command: Show Risk Analysis ---
   const showRiskAnalysis = vscode.commands.registerCommand('prism.showRiskAnalysis', async (arg?: unknown) => {
-    const prFromTree = extractPR(arg);
-    let prNumber: number;
-    if (prFromTree) {
-      prNumber = prFromTree.number;
-    } else {
-      const prInput = await vscode.window.showInputBox({ prompt: 'Enter PR number for risk analysis', placeHolder: '42' });
-      if (!prInput) {
-        return;
-      }
-      prNumber = parseInt(prInput, 10);
-      if (isNaN(prNumber)) {
-        vscode.window.showErrorMessage('PRism: Invalid PR number.');
-        return;
-      }
+    const target = await analysisTarget(arg, 'Enter PR number for risk analysis');
+    if (!target) {
+      return;
     }
 
     await vscode.window.withProgress(
-      { location: vscode.ProgressLocation.Notification, title: `PRism: Analyzing risk for PR #${prNumber}…`, cancellable: false },
+      { location: vscode.ProgressLocation.Notification, title: `PRism: Analyzing risk for ${describeTarget(target)}…`, cancellable: false },
       async () => {
-        const files = await github.getChangedFiles(prNumber);
+        const { files, diffs, warnings } = await loadChanges(target);
         const allChunks = [];
         for (const file of files) {
-          const diff = await github.getDiff(prNumber, file.filePath);
+          const diff = diffs.get(file.filePath) ?? '';
           const chunks = diffEngine.parse(diff);
           allChunks.push(...chunks);
         }
         const riskReports = riskAnalyzer.analyze(allChunks);
+        if (target.kind === 'pullRequest' && extractPR(arg)) {
+          prTreeProvider.setRiskReports(target.pr, riskReports);
+        }
         const riskLines = riskReports.map(
           (r) => `| ${r.filePath} | ${r.level.toUpperCase()} | ${r.score}/100 | ${r.reasons.join('; ')} |`
         );
-        const content = `# Risk Analysis — PR #${prNumber}\n\n| File | Level | Score | Reasons |\n|------|-------|-------|--------|\n${riskLines.join('\n')}`;
+        const notes = warnings.map((w) => `> ⚠️ ${w}\n\n`).join('');
+        const content = `# Risk Analysis — ${describeTarget(target)}\n\n${notes}| File | Level | Score | Reasons |\n|------|-------|-------|--------|\n${riskLines.join('\n')}`;
         const doc = await vscode.workspace.openTextDocument({ content, language: 'markdown' });
         await vscode.window.showTextDocument(doc, vscode.ViewColumn.Beside);
       }
@@ -252,59 +789,34 @@ Format as markdown.`;
 
   // --- Command: In-Depth Analysis ---
   const deepAnalysis = vscode.commands.registerCommand('prism.deepAnalysis', async (arg?: unknown) => {
-    let prNumber: number;
-    let prData: PullRequest;
-    const prFromTree = extractPR(arg);
-
-    if (prFromTree) {
-      prNumber = prFromTree.number;
-      prData = prFromTree;
-    } else {
-      const prInput = await vscode.window.showInputBox({
-        prompt: 'Enter PR number for in-depth analysis',
-        placeHolder: '42',
-      });
-      if (!prInput) { return; }
-      prNumber = parseInt(prInput, 10);
-      if (isNaN(prNumber)) {
-        vscode.window.showErrorMessage('PRism: Invalid PR number.');
-        return;
-      }
-      prData = {
-        number: prNumber,
-        title: `In-Depth Analysis: PR #${prNumber}`,
-        author: '',
-        url: '',
-        headBranch: '',
-        baseBranch: '',
-        changedFilesCount: 0,
-        createdAt: new Date().toISOString(),
-      };
+    const target = await analysisTarget(arg, 'Enter PR number for in-depth analysis');
+    if (!target) {
+      return;
     }
 
     const panel = ReviewResultsPanel.createOrShow(context.extensionUri);
-    panel.showLoading(`Running in-depth analysis on PR #${prNumber}…`);
+    panel.showLoading(`Running in-depth analysis on ${describeTarget(target)}…`);
 
     try {
       const config = vscode.workspace.getConfiguration('prism');
       const mode = (config.get<string>('reviewMode') ?? 'general') as ReviewMode;
 
-      const changedFiles = await github.getChangedFiles(prNumber);
-      prData.changedFilesCount = changedFiles.length;
+      const changes = await loadChanges(target);
 
       const allChunks = [];
-      for (const file of changedFiles) {
+      for (const file of changes.files) {
         panel.showLoading(`Parsing ${file.filePath}…`);
-        const diff = await github.getDiff(prNumber, file.filePath);
+        const diff = changes.diffs.get(file.filePath) ?? '';
         const chunks = diffEngine.parse(diff);
         allChunks.push(...chunks);
       }
 
       panel.showLoading('Running deep AI analysis — this may take a moment…');
-      const analysis = await reviewEngine.deepAnalyze(prNumber, allChunks, changedFiles, mode);
+      const prNumber = target.kind === 'pullRequest' ? target.pr.number : undefined;
+      const analysis = await reviewEngine.deepAnalyze(prNumber, allChunks, changes.files, mode);
 
       const riskReports = riskAnalyzer.analyze(allChunks);
-      panel.updateDeepAnalysis(prData, analysis, riskReports);
+      panel.updateDeepAnalysis(changes.target, analysis, riskReports, changes.warnings);
     } catch (err) {
       panel.showError((err as Error).message);
     }
@@ -312,34 +824,9 @@ Format as markdown.`;
 
   // --- Command: Multi-Model Review ---
   const multiModelReview = vscode.commands.registerCommand('prism.multiModelReview', async (arg?: unknown) => {
-    let prNumber: number;
-    let prData: PullRequest;
-    const prFromTree = extractPR(arg);
-
-    if (prFromTree) {
-      prNumber = prFromTree.number;
-      prData = prFromTree;
-    } else {
-      const prInput = await vscode.window.showInputBox({
-        prompt: 'Enter PR number for multi-model review',
-        placeHolder: '42',
-      });
-      if (!prInput) { return; }
-      prNumber = parseInt(prInput, 10);
-      if (isNaN(prNumber)) {
-        vscode.window.showErrorMessage('PRism: Invalid PR number.');
-        return;
-      }
-      prData = {
-        number: prNumber,
-        title: `Multi-Model Review: PR #${prNumber}`,
-        author: '',
-        url: '',
-        headBranch: '',
-        baseBranch: '',
-        changedFilesCount: 0,
-        createdAt: new Date().toISOString(),
-      };
+    const target = await analysisTarget(arg, 'Enter PR number for multi-model review');
+    if (!target) {
+      return;
     }
 
     const models = await copilot.listModels();
@@ -363,21 +850,20 @@ Format as markdown.`;
     if (!selectedModels || selectedModels.length === 0) { return; }
 
     const panel = ReviewResultsPanel.createOrShow(context.extensionUri);
-    panel.showLoading(`Starting multi-model review on PR #${prNumber}…`);
+    panel.showLoading(`Starting multi-model review on ${describeTarget(target)}…`);
 
     try {
       const config = vscode.workspace.getConfiguration('prism');
       const mode = (config.get<string>('reviewMode') ?? 'general') as ReviewMode;
 
-      const changedFiles = await github.getChangedFiles(prNumber);
-      prData.changedFilesCount = changedFiles.length;
+      panel.showLoading(`Fetching diff for ${describeTarget(target)}…`);
+      const changes = await loadChanges(target);
 
       // Group chunks by file for batched review
       const fileChunksMap: Map<string, import('./types').DiffChunk[]> = new Map();
       const allChunks: import('./types').DiffChunk[] = [];
-      for (const file of changedFiles) {
-        panel.showLoading(`Fetching diff for ${file.filePath}…`);
-        const diff = await github.getDiff(prNumber, file.filePath);
+      for (const file of changes.files) {
+        const diff = changes.diffs.get(file.filePath) ?? '';
         const chunks = diffEngine.parse(diff);
         allChunks.push(...chunks);
         fileChunksMap.set(file.filePath, chunks);
@@ -398,7 +884,7 @@ Format as markdown.`;
         modelResults.push({ modelName: model.label, results });
       }
 
-      panel.updateMultiModelResults(prData, modelResults, riskReports);
+      panel.updateMultiModelResults(changes.target, modelResults, riskReports, changes.warnings);
     } catch (err) {
       panel.showError((err as Error).message);
     }
@@ -422,7 +908,7 @@ Format as markdown.`;
 
   // --- Command: Check Merge Status ---
   const checkMergeStatus = vscode.commands.registerCommand('prism.checkMergeStatus', async (arg?: unknown) => {
-    const pr = extractPR(arg);
+    const pr = await targetPR(arg);
     if (!pr) {
       vscode.window.showErrorMessage('PRism: No PR selected.');
       return;
@@ -432,7 +918,7 @@ Format as markdown.`;
     panel.showLoading(`Checking merge status for PR #${pr.number}…`);
 
     try {
-      const status = await github.getMergeStatus(pr.number);
+      const status = await loadMergeStatus(pr);
       panel.updateMergeStatus(pr, status);
     } catch (err) {
       panel.showError((err as Error).message);
@@ -441,95 +927,723 @@ Format as markdown.`;
 
   // --- Command: Merge PR ---
   const mergePR = vscode.commands.registerCommand('prism.mergePR', async (arg?: unknown) => {
-    const pr = extractPR(arg);
+    const pr = await targetPR(arg);
     if (!pr) {
       vscode.window.showErrorMessage('PRism: No PR selected.');
       return;
     }
 
-    // First check merge status
-    const status = await github.getMergeStatus(pr.number);
+    try {
+      // First check merge status
+      const status = await loadMergeStatus(pr);
+
+      if (status.merged) {
+        vscode.window.showInformationMessage(`PR #${pr.number} is already merged.`);
+        return;
+      }
+
+      if (status.autoMerge) {
+        const action = await vscode.window.showInformationMessage(
+          `PR #${pr.number} is already queued to merge ${describeAutoMergeTrigger(status.autoMerge)}.`,
+          { modal: true },
+          'Cancel Auto-Merge'
+        );
+        if (action === 'Cancel Auto-Merge') {
+          await vscode.commands.executeCommand('prism.cancelAutoMerge', pr);
+        }
+        return;
+      }
+
+      if (!status.mergeable || status.blockingReasons.length > 0) {
+        const reasons = status.blockingReasons.length > 0
+          ? status.blockingReasons
+          : [`The provider reports the PR as not mergeable (${status.mergeableState}).`];
+        const canBypass = status.requirements.canBypass && status.mergeableState !== 'dirty';
+        const canUpdate = status.behindBy > 0 && status.mergeableState !== 'dirty';
+        const queueAction = status.mergeableState === 'dirty'
+          ? []
+          : [status.autoMergeAllowed ? 'Enable Auto-Merge' : 'Merge When Checks Pass'];
+        const conflictLines = status.conflicts?.length
+          ? ['', 'Conflicting files:', ...status.conflicts.map((c) => `    ${c.filePath}`)]
+          : [];
+        const blockedAction = await vscode.window.showWarningMessage(
+          `PR #${pr.number} cannot be merged yet.`,
+          { modal: true, detail: [...reasons.map((r) => `• ${r}`), ...conflictLines].join('\n') },
+          'View Status',
+          ...(canUpdate ? ['Update Branch'] : []),
+          ...queueAction,
+          ...(canBypass ? ['Merge as Administrator'] : [])
+        );
+        if (blockedAction === 'View Status') {
+          const panel = ReviewResultsPanel.createOrShow(context.extensionUri);
+          panel.updateMergeStatus(pr, status);
+        }
+        if (blockedAction === 'Update Branch') {
+          await vscode.commands.executeCommand('prism.updateBranch', pr);
+        }
+        if (blockedAction === 'Enable Auto-Merge' || blockedAction === 'Merge When Checks Pass') {
+          await vscode.commands.executeCommand('prism.enableAutoMerge', pr);
+        }
+        if (blockedAction !== 'Merge as Administrator') {
+          return;
+        }
+      }
+
+      if (status.warnings.length > 0) {
+        const proceed = await vscode.window.showWarningMessage(
+          `PR #${pr.number} can be merged, but:`,
+          { modal: true, detail: status.warnings.map((w) => `• ${w}`).join('\n') },
+          'Merge Anyway'
+        );
+        if (proceed !== 'Merge Anyway') { return; }
+      }
+
+      const method = await pickMergeMethod(status.allowedMethods, `PRism: Merge PR #${pr.number}`);
+      if (!method) { return; }
+
+      // A squash commit message is drafted and confirmed in an editor; other methods get a plain confirmation
+      let commitMessage: CommitMessage | undefined;
+      if (method === 'squash') {
+        commitMessage = await editSquashMessage(pr);
+        if (!commitMessage) { return; }
+      } else {
+        const confirm = await vscode.window.showWarningMessage(
+          `Merge PR #${pr.number} "${pr.title}" using ${method}?`,
+          { modal: true },
+          'Merge'
+        );
+        if (confirm !== 'Merge') { return; }
+      }
+
+      await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `PRism: Merging PR #${pr.number}…`, cancellable: false },
+        async (progress) => {
+          const result = await scm.mergePR(pr.number, method, commitMessage?.title, commitMessage?.body);
+          if (result.success) {
+            vscode.window.showInformationMessage(`PRism: PR #${pr.number} merged successfully! SHA: ${result.sha}`);
+            progress.report({ message: 'cleaning up…' });
+            const postMerge = await runPostMergeSteps({
+              pr,
+              headSha: status.headSha,
+              mergeSha: result.sha,
+              commitMessage: commitMessage?.body,
+              adapter: scm,
+              git: LocalGit.forRepository(await scm.getRepository()),
+              settings: getPostMergeSettings(),
+            });
+            prTreeProvider.refresh();
+            const panel = ReviewResultsPanel.createOrShow(context.extensionUri);
+            const updatedStatus = await scm.getMergeStatus(pr.number);
+            panel.updateMergeStatus(pr, { ...updatedStatus, postMerge });
+            const failed = postMerge.filter((step) => step.status === 'failed');
+            if (failed.length > 0) {
+              vscode.window.showWarningMessage(
+                `PRism: ${failed.length} post-merge step(s) failed: ${failed.map((step) => step.label).join(', ')}.`
+              );
+            }
+          } else {
+            vscode.window.showErrorMessage(`PRism: Merge failed — ${result.message}`);
+          }
+        }
+      );
+    } catch (err) {
+      vscode.window.showErrorMessage(`PRism: Merging PR #${pr.number} failed — ${(err as Error).message}`);
+    }
+  });
 
-    if (status.merged) {
-      vscode.window.showInformationMessage(`PR #${pr.number} is already merged.`);
+  // --- Command: Enable Auto-Merge ---
+  const enableAutoMerge = vscode.commands.registerCommand('prism.enableAutoMerge', async (arg?: unknown) => {
+    const pr = await targetPR(arg);
+    if (!pr) {
+      vscode.window.showErrorMessage('PRism: No PR selected.');
       return;
     }
 
-    if (!status.mergeable) {
-      const conflictAction = await vscode.window.showWarningMessage(
-        `PR #${pr.number} has conflicts and cannot be merged.`,
-        'View Status'
-      );
-      if (conflictAction === 'View Status') {
-        const panel = ReviewResultsPanel.createOrShow(context.extensionUri);
-        panel.updateMergeStatus(pr, status);
+    try {
+      const status = await loadMergeStatus(pr);
+      if (status.merged) {
+        vscode.window.showInformationMessage(`PR #${pr.number} is already merged.`);
+        return;
       }
+      if (status.autoMerge) {
+        vscode.window.showInformationMessage(`PR #${pr.number} is already queued to merge ${describeAutoMergeTrigger(status.autoMerge)}.`);
+        return;
+      }
+      if (status.mergeableState === 'dirty') {
+        vscode.window.showErrorMessage(`PRism: PR #${pr.number} conflicts with its base. Resolve the conflicts before queueing a merge.`);
+        return;
+      }
+
+      const method = await pickMergeMethod(status.allowedMethods, `PRism: Auto-Merge PR #${pr.number}`);
+      if (!method) { return; }
+
+      // Optional commit title for squash
+      let commitTitle: string | undefined;
+      if (method === 'squash') {
+        commitTitle = await vscode.window.showInputBox({
+          prompt: 'Squash commit title (leave empty for default)',
+          value: `${pr.title} (#${pr.number})`,
+        });
+        if (commitTitle === undefined) { return; } // Cancelled
+      }
+
+      // Without provider auto-merge, PRism polls and merges the PR itself
+      if (!status.autoMergeAllowed) {
+        mergeWatcher.watch(pr, method, commitTitle || undefined);
+        vscode.window.showInformationMessage(
+          `PRism: PR #${pr.number} will be merged (${method}) as soon as its checks pass. Keep this window open.`
+        );
+        return;
+      }
+
+      const result = await scm.enableAutoMerge(pr.number, method, commitTitle || undefined);
+      if (!result.success) {
+        vscode.window.showErrorMessage(`PRism: Enabling auto-merge failed — ${result.message}`);
+        return;
+      }
+      vscode.window.showInformationMessage(
+        result.sha
+          ? `PRism: PR #${pr.number} merged successfully! SHA: ${result.sha}`
+          : `PRism: Auto-merge enabled for PR #${pr.number} (${method}).`
+      );
+      prTreeProvider.refresh();
+    } catch (err) {
+      vscode.window.showErrorMessage(`PRism: Enabling auto-merge failed — ${(err as Error).message}`);
+    }
+  });
+
+  // --- Command: Cancel Auto-Merge ---
+  const cancelAutoMerge = vscode.commands.registerCommand('prism.cancelAutoMerge', async (arg?: unknown) => {
+    const pr = await targetPR(arg);
+    if (!pr) {
+      vscode.window.showErrorMessage('PRism: No PR selected.');
       return;
     }
 
-    // Pick merge method
-    const methodItems: { label: string; description: string; method: MergeMethod }[] = [];
-    if (status.allowedMethods.includes('merge')) {
-      methodItems.push({ label: '$(git-merge) Merge Commit', description: 'Create a merge commit', method: 'merge' });
+    if (mergeWatcher.cancel(pr)) {
+      vscode.window.showInformationMessage(`PRism: No longer waiting to merge PR #${pr.number}.`);
+      return;
     }
-    if (status.allowedMethods.includes('squash')) {
-      methodItems.push({ label: '$(fold) Squash and Merge', description: 'Squash all commits into one', method: 'squash' });
+    const result = await scm.disableAutoMerge(pr.number);
+    if (result.success) {
+      vscode.window.showInformationMessage(`PRism: Auto-merge cancelled for PR #${pr.number}.`);
+      prTreeProvider.refresh();
+    } else {
+      vscode.window.showErrorMessage(`PRism: Cancelling auto-merge failed — ${result.message}`);
     }
-    if (status.allowedMethods.includes('rebase')) {
-      methodItems.push({ label: '$(git-commit) Rebase and Merge', description: 'Rebase commits onto base branch', method: 'rebase' });
+  });
+
+  // --- Command: Update Branch ---
+  const updateBranch = vscode.commands.registerCommand(
+    'prism.updateBranch',
+    async (arg?: unknown, method?: BranchUpdateMethod) => {
+      const pr = await targetPR(arg);
+      if (!pr) {
+        vscode.window.showErrorMessage('PRism: No PR selected.');
+        return;
+      }
+
+      let updateMethod: BranchUpdateMethod | undefined = method;
+      if (!updateMethod) {
+        const picked = await vscode.window.showQuickPick(
+          [
+            { label: '$(git-merge) Update with Merge Commit', description: `Merge ${pr.baseBranch || 'the base branch'} into ${pr.headBranch || 'the PR branch'}`, method: 'merge' as const },
+            { label: '$(git-commit) Update with Rebase', description: `Rebase the PR commits onto ${pr.baseBranch || 'the base branch'}`, method: 'rebase' as const },
+          ],
+          { placeHolder: 'How should the branch be brought up to date?', title: `PRism: Update Branch of PR #${pr.number}` }
+        );
+        if (!picked) { return; }
+        updateMethod = picked.method;
+      }
+      const chosenMethod = updateMethod;
+
+      const panel = ReviewResultsPanel.createOrShow(context.extensionUri);
+      await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `PRism: Updating PR #${pr.number}…`, cancellable: false },
+        async (progress) => {
+          try {
+            const before = await scm.getMergeStatus(pr.number);
+            if (before.behindBy === 0) {
+              vscode.window.showInformationMessage(`PRism: PR #${pr.number} is already up to date with its base.`);
+              panel.updateMergeStatus(pr, before);
+              return;
+            }
+
+            const result = await scm.updateBranch(pr.number, chosenMethod, before.headSha);
+            if (!result.success) {
+              vscode.window.showErrorMessage(`PRism: Branch update failed — ${result.message}`);
+              return;
+            }
+
+            progress.report({ message: 'waiting for the new head commit…' });
+            const headSha = await waitFor(() => scm.getHeadSha(pr.number), (sha) => sha !== before.headSha);
+            if (!headSha) {
+              vscode.window.showWarningMessage(
+                `PRism: PR #${pr.number} has not moved yet. The update may still be running; refresh merge status in a moment.`
+              );
+              return;
+            }
+
+            // Mergeability is recomputed in the background after every push
+            progress.report({ message: 'refreshing merge status…' });
+            const status =
+              (await waitFor(() => scm.getMergeStatus(pr.number), (s) => s.mergeableState !== 'unknown')) ??
+              (await scm.getMergeStatus(pr.number));
+            panel.updateMergeStatus(pr, status);
+            prTreeProvider.refresh();
+            vscode.window.showInformationMessage(`PRism: PR #${pr.number} updated to ${headSha.slice(0, 7)}.`);
+          } catch (err) {
+            vscode.window.showErrorMessage(`PRism: Branch update failed — ${(err as Error).message}`);
+          }
+        }
+      );
     }
+  );
 
-    if (methodItems.length === 0) {
-      vscode.window.showErrorMessage('PRism: No merge methods available for this repository.');
+  // --- Command: Revert PR ---
+  const revertPR = vscode.commands.registerCommand('prism.revertPR', async (arg?: unknown) => {
+    const pr = await targetPR(arg);
+    if (!pr) {
+      vscode.window.showErrorMessage('PRism: No PR selected.');
       return;
     }
 
-    const selected = await vscode.window.showQuickPick(methodItems, {
-      placeHolder: 'Select merge method',
-      title: `PRism: Merge PR #${pr.number}`,
-    });
-    if (!selected) { return; }
-
-    // Optional commit title for squash
-    let commitTitle: string | undefined;
-    if (selected.method === 'squash') {
-      commitTitle = await vscode.window.showInputBox({
-        prompt: 'Squash commit title (leave empty for default)',
-        value: `${pr.title} (#${pr.number})`,
-      });
-      if (commitTitle === undefined) { return; } // Cancelled
-    }
+    await vscode.window.withProgress(
+      { location: vscode.ProgressLocation.Notification, title: `PRism: Reverting PR #${pr.number}…`, cancellable: false },
+      async (progress) => {
+        try {
+          const status = await scm.getMergeStatus(pr.number);
+          if (!status.merged || !status.mergeCommitSha) {
+            vscode.window.showErrorMessage(`PRism: PR #${pr.number} has not been merged, so there is nothing to revert.`);
+            return;
+          }
 
-    // Confirm merge
-    const confirm = await vscode.window.showWarningMessage(
-      `Merge PR #${pr.number} "${pr.title}" using ${selected.method}?`,
-      { modal: true },
-      'Merge'
-    );
-    if (confirm !== 'Merge') { return; }
+          progress.report({ message: 'pushing the revert branch…' });
+          const git = LocalGit.forRepository(await scm.getRepository());
+          const baseSha = await git.fetch(`refs/heads/${pr.baseBranch}`);
+          const commits = await scm.getCommits(pr.number);
+          const { revision, mainline } = await revertRevision(git, commits, status.mergeCommitSha);
+          const branch = `revert-${pr.number}-${pr.headBranch}`;
+          await git.pushRevert(branch, baseSha, revision, mainline);
 
-    await vscode.window.withProgress(
-      { location: vscode.ProgressLocation.Notification, title: `PRism: Merging PR #${pr.number}…`, cancellable: false },
-      async () => {
-        const result = await github.mergePR(pr.number, selected.method, commitTitle || undefined);
-        if (result.success) {
-          vscode.window.showInformationMessage(`PRism: PR #${pr.number} merged successfully! SHA: ${result.sha}`);
+          progress.report({ message: 'writing the description…' });
+          const { files } = await scm.getChangedFiles(pr.number);
+          const reference = pr.repository?.provider === 'gitlab' ? `!${pr.number}` : `#${pr.number}`;
+          const revert = await scm.createPR({
+            title: `Revert ${reference}`,
+            body: await descriptions.revert(pr, status, files),
+            headBranch: branch,
+            baseBranch: pr.baseBranch,
+          });
           prTreeProvider.refresh();
-          const panel = ReviewResultsPanel.createOrShow(context.extensionUri);
-          const updatedStatus = await github.getMergeStatus(pr.number);
-          panel.updateMergeStatus(pr, updatedStatus);
-        } else {
-          vscode.window.showErrorMessage(`PRism: Merge failed — ${result.message}`);
+
+          const action = await vscode.window.showInformationMessage(
+            `PRism: Opened PR #${revert.number} to revert PR #${pr.number}.`,
+            'Open in Browser'
+          );
+          if (action === 'Open in Browser') {
+            vscode.env.openExternal(vscode.Uri.parse(revert.url));
+          }
+        } catch (err) {
+          vscode.window.showErrorMessage(`PRism: Revert failed — ${(err as Error).message}`);
         }
       }
     );
   });
 
+  // --- Command: Create PR ---
+  const createPR = vscode.commands.registerCommand('prism.createPR', async () => {
+    try {
+      const repository = await scm.getRepository();
+      const git = LocalGit.forRepository(repository);
+      const branch = await git.currentBranch();
+      if (branch === 'HEAD') {
+        vscode.window.showErrorMessage('PRism: HEAD is detached. Check out the branch to open a pull request from.');
+        return;
+      }
+
+      // The PR's head is the branch's upstream on the repository's remote, with every local commit pushed
+      const upstream = await git.upstreamOf(branch);
+      const headBranch = upstream?.remote === repository.remoteName ? upstream.branch : branch;
+      const unpushed =
+        upstream?.remote === repository.remoteName
+          ? await git.countCommits(`refs/remotes/${repository.remoteName}/${headBranch}..${branch}`).catch(() => undefined)
+          : undefined;
+      if (unpushed !== 0) {
+        const choice = await vscode.window.showWarningMessage(
+          unpushed === undefined
+            ? `"${branch}" is not on ${repository.remoteName} yet.`
+            : `${unpushed} commit(s) on "${branch}" are not on ${repository.remoteName}/${headBranch} yet.`,
+          { modal: true, detail: `PRism pushes it to ${repository.remoteName}/${headBranch} before opening the pull request.` },
+          'Push and Continue'
+        );
+        if (choice !== 'Push and Continue') { return; }
+        await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: `PRism: Pushing ${branch}…`, cancellable: false },
+          () => git.pushBranch(branch, headBranch)
+        );
+      }
+
+      const baseBranches = (await git.remoteBranches()).filter((b) => b !== headBranch);
+      if (baseBranches.length === 0) {
+        vscode.window.showErrorMessage(`PRism: No other branches of ${repository.remoteName} have been fetched.`);
+        return;
+      }
+      const baseBranch = await vscode.window.showQuickPick(baseBranches, {
+        placeHolder: `Branch to merge "${headBranch}" into`,
+        title: 'PRism: Create Pull Request',
+      });
+      if (!baseBranch) { return; }
+
+      const draft = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `PRism: Writing the pull request for ${branch}…`, cancellable: false },
+        async () => {
+          const baseSha = await git.fetch(`refs/heads/${baseBranch}`);
+          const commits = await git.commitMessages(`${baseSha}..${branch}`);
+          if (commits.length === 0) {
+            return undefined;
+          }
+          const fileDiffs = splitUnifiedDiff(await git.diffRange(baseSha, branch));
+          return descriptions.draft({
+            headBranch,
+            baseBranch,
+            commits,
+            files: fileDiffs.map(describeFileDiff),
+            diffs: new Map(fileDiffs.map((file) => [file.filePath, file.text])),
+            riskReports: riskAnalyzer.analyze(fileDiffs.flatMap((file) => diffEngine.parse(file.text))),
+            template: await readPRTemplate(repository.rootPath),
+          });
+        }
+      );
+      if (!draft) {
+        vscode.window.showInformationMessage(`PRism: "${branch}" has no commits that are not on ${baseBranch}.`);
+        return;
+      }
+
+      const doc = await vscode.workspace.openTextDocument({ language: 'markdown', content: `${draft.title}\n\n${draft.body}\n` });
+      await vscode.window.showTextDocument(doc, vscode.ViewColumn.Beside);
+      // Not modal, so the document stays editable while the question is open
+      const action = await vscode.window.showInformationMessage(
+        `PRism: Edit the pull request for "${headBranch}" → "${baseBranch}" (the first line is the title), then create it.`,
+        'Create Pull Request',
+        'Create Draft',
+        'Cancel'
+      );
+      const [titleLine, ...bodyLines] = doc.getText().split('\n');
+      if (!doc.isClosed) {
+        await vscode.window.showTextDocument(doc);
+        await vscode.commands.executeCommand('workbench.action.revertAndCloseActiveEditor');
+      }
+
+      if (action !== 'Create Pull Request' && action !== 'Create Draft') {
+        return;
+      }
+      const title = titleLine.replace(/^#+\s*/, '').trim();
+      if (!title) {
+        vscode.window.showErrorMessage('PRism: The pull request title is empty.');
+        return;
+      }
+      const pr = await scm.createPR({
+        title,
+        body: bodyLines.join('\n').trim(),
+        headBranch,
+        baseBranch,
+        draft: action === 'Create Draft',
+      });
+      prTreeProvider.refresh();
+
+      const open = await vscode.window.showInformationMessage(`PRism: Opened PR #${pr.number}: ${pr.title}`, 'Open in Browser');
+      if (open === 'Open in Browser') {
+        vscode.env.openExternal(vscode.Uri.parse(pr.url));
+      }
+    } catch (err) {
+      vscode.window.showErrorMessage(`PRism: Could not create the pull request — ${(err as Error).message}`);
+    }
+  });
+
+  /**
+   * Check out a PR's head in a local branch that tracks the PR branch and
+   * records the PR. A fork's branch gets the fork owner as prefix, so it
+   * cannot clash with a branch of this repository.
+   */
+  const checkOutPullRequest = async (git: LocalGit, repository: RepositoryRef, pr: PullRequest): Promise<string> => {
+    const fork = await scm.getHeadFork(pr.number);
+    const branch = fork ? `${fork.owner}/${pr.headBranch}` : pr.headBranch;
+    const headSha = await git.fetch(pullRequestRef(repository.provider, pr.number));
+    await git.checkout(branch, headSha);
+    await git.setUpstream(branch, fork?.cloneUrl ?? repository.remoteName, pr.headBranch);
+    await git.setConfig(`branch.${branch}.${CHECKED_OUT_PR_KEY}`, pr.url);
+    return branch;
+  };
+
+  // --- Command: Check Out PR ---
+  const checkoutPR = vscode.commands.registerCommand('prism.checkoutPR', async (arg?: unknown) => {
+    const pr = await targetPR(arg);
+    if (!pr) {
+      vscode.window.showErrorMessage('PRism: No PR selected.');
+      return;
+    }
+
+    try {
+      const repository = await scm.getRepository();
+      const git = LocalGit.forRepository(repository);
+      if (!(await git.isClean())) {
+        const choice = await vscode.window.showWarningMessage(
+          `You have uncommitted changes in ${repository.owner}/${repository.repo}.`,
+          {
+            modal: true,
+            detail: 'They are carried over to the PR branch, and git refuses the checkout if they touch files the PR changes. ' +
+              'Commit or stash them first to keep them on the current branch.',
+          },
+          'Check Out Anyway'
+        );
+        if (choice !== 'Check Out Anyway') { return; }
+      }
+
+      const branch = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `PRism: Checking out PR #${pr.number}…`, cancellable: false },
+        () => checkOutPullRequest(git, repository, pr)
+      );
+      prTreeProvider.redraw();
+      vscode.window.showInformationMessage(`PRism: Checked out PR #${pr.number} on branch "${branch}".`);
+    } catch (err) {
+      vscode.window.showErrorMessage(`PRism: Checkout failed — ${(err as Error).message}`);
+    }
+  });
+
+  // --- Command: Resolve Conflict ---
+  const resolveConflict = vscode.commands.registerCommand(
+    'prism.resolveConflict',
+    async (arg?: unknown, filePath?: string) => {
+      const pr = await targetPR(arg);
+      if (!pr) {
+        vscode.window.showErrorMessage('PRism: No PR selected.');
+        return;
+      }
+
+      try {
+        const repository = await scm.getRepository();
+        const git = LocalGit.forRepository(repository);
+
+        // A merge started for an earlier file is reused for the rest
+        const resuming =
+          (await git.isMerging()) &&
+          (await git.getConfig(`branch.${await git.currentBranch()}.${CHECKED_OUT_PR_KEY}`)) === pr.url;
+        if (!resuming) {
+          const confirm = await vscode.window.showWarningMessage(
+            `Check out PR #${pr.number} ("${pr.headBranch}") and merge "${pr.baseBranch}" into it?`,
+            {
+              modal: true,
+              detail: 'The merge is left uncommitted so the conflicts can be resolved in the merge editor. ' +
+                `Commit and push the result to update PR #${pr.number}.`,
+            },
+            'Check Out and Merge'
+          );
+          if (confirm !== 'Check Out and Merge') { return; }
+          if (!(await git.isClean())) {
+            vscode.window.showErrorMessage('PRism: Commit or stash your local changes before resolving conflicts.');
+            return;
+          }
+
+          const { branch, conflicted } = await vscode.window.withProgress(
+            { location: vscode.ProgressLocation.Notification, title: `PRism: Merging ${pr.baseBranch} into ${pr.headBranch}…`, cancellable: false },
+            async () => {
+              const baseSha = await git.fetch(`refs/heads/${pr.baseBranch}`);
+              const branch = await checkOutPullRequest(git, repository, pr);
+              const conflicted = await git.mergeWithoutCommit(baseSha, `Merge branch '${pr.baseBranch}' into ${pr.headBranch}`);
+              return { branch, conflicted };
+            }
+          );
+          if (!conflicted) {
+            vscode.window.showInformationMessage(
+              `PRism: ${pr.baseBranch} merged into ${branch} without conflicts. Review and commit the merge.`
+            );
+            return;
+          }
+        }
+
+        if (filePath) {
+          const uri = vscode.Uri.joinPath(vscode.Uri.file(repository.rootPath), filePath);
+          await vscode.commands.executeCommand('git.openMergeEditor', uri);
+        }
+      } catch (err) {
+        vscode.window.showErrorMessage(`PRism: Could not start conflict resolution — ${(err as Error).message}`);
+      }
+    }
+  );
+
+  // --- Command: Publish Review ---
+  const publishReview = vscode.commands.registerCommand(
+    'prism.publishReview',
+    async (arg?: unknown, findings: ReviewFinding[] = [], event?: ReviewEvent): Promise<boolean> => {
+      const pr = await targetPR(arg);
+      if (!pr) {
+        vscode.window.showErrorMessage('PRism: No PR selected.');
+        return false;
+      }
+      if (findings.length === 0) {
+        vscode.window.showWarningMessage('PRism: Select at least one finding to publish.');
+        return false;
+      }
+
+      let reviewEvent = event;
+      if (!reviewEvent) {
+        const eventItems: { label: string; description: string; event: ReviewEvent }[] = [
+          { label: '$(comment) Comment', description: 'Submit general feedback', event: 'COMMENT' },
+          { label: '$(request-changes) Request Changes', description: 'Feedback that must be addressed', event: 'REQUEST_CHANGES' },
+          { label: '$(check) Approve', description: 'Approve these changes', event: 'APPROVE' },
+        ];
+        const picked = await vscode.window.showQuickPick(eventItems, {
+          placeHolder: 'Select review type',
+          title: `PRism: Publish Review on PR #${pr.number}`,
+        });
+        if (!picked) { return false; }
+        reviewEvent = picked.event;
+      }
+
+      const confirm = await vscode.window.showWarningMessage(
+        `Publish ${findings.length} finding(s) to PR #${pr.number} as ${reviewEvent.replace('_', ' ').toLowerCase()}?`,
+        { modal: true },
+        'Publish'
+      );
+      if (confirm !== 'Publish') { return false; }
+
+      return vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: `PRism: Publishing review on PR #${pr.number}…`, cancellable: false },
+        async () => {
+          try {
+            const snapshot = await scm.getDiffSnapshot(pr.number);
+            const review = buildReviewSubmission(findings, snapshot, reviewEvent);
+            const url = await scm.submitReview(pr.number, review);
+            const outside = findings.length - review.comments.length;
+            const action = await vscode.window.showInformationMessage(
+              `PRism: Review published on PR #${pr.number} with ${review.comments.length} line comment(s)` +
+              (outside > 0 ? ` (${outside} finding(s) outside the diff added to the summary).` : '.'),
+              'Open in Browser'
+            );
+            if (action === 'Open in Browser') {
+              vscode.env.openExternal(vscode.Uri.parse(url));
+            }
+            return true;
+          } catch (err) {
+            vscode.window.showErrorMessage(`PRism: Publishing review failed — ${(err as Error).message}`);
+            return false;
+          }
+        }
+      );
+    }
+  );
+
+  // --- Command: Discard Review ---
+  const discardReview = vscode.commands.registerCommand('prism.discardReview', async (arg?: unknown) => {
+    const pr = await targetPR(arg);
+    if (!pr) {
+      vscode.window.showErrorMessage('PRism: No PR selected.');
+      return;
+    }
+    reviewComments.clear(pr);
+    reviewDiagnostics.clear(pr);
+    prTreeProvider.clearReview(pr);
+  });
+
+  // --- Command: Publish Finding (comment thread) ---
+  const publishFinding = vscode.commands.registerCommand('prism.publishFinding', async (thread: vscode.CommentThread) => {
+    const entry = reviewComments.findingFor(thread);
+    if (!entry) {
+      return;
+    }
+    const published = await vscode.commands.executeCommand<boolean>('prism.publishReview', entry.pr, [entry.finding], 'COMMENT');
+    if (published) {
+      reviewComments.markPublished(entry);
+    }
+  });
+
+  // --- Command: Dismiss Finding (comment thread) ---
+  const dismissFinding = vscode.commands.registerCommand('prism.dismissFinding', (thread: vscode.CommentThread) => {
+    const entry = reviewComments.findingFor(thread);
+    if (entry) {
+      reviewComments.dismiss(entry);
+      reviewDiagnostics.dismiss(entry.pr, entry.finding);
+      prTreeProvider.removeFinding(entry.pr, entry.finding.filePath, entry.finding.suggestion);
+    }
+  });
+
+  // --- Command: Apply Finding Patch (comment thread) ---
+  const applyFindingPatch = vscode.commands.registerCommand('prism.applyFindingPatch', async (thread: vscode.CommentThread) => {
+    const entry = reviewComments.findingFor(thread);
+    const patch = entry?.finding.suggestion.patch;
+    if (!entry || patch === undefined) {
+      return;
+    }
+    const { pr, headSha, finding } = entry;
+    let repository: RepositoryRef;
+    try {
+      repository = pr.repository ?? (await scm.getRepository());
+    } catch (err) {
+      vscode.window.showErrorMessage(`PRism: Failed to apply the patch — ${(err as Error).message}`);
+      return;
+    }
+
+    // The finding's lines only refer to local files at the reviewed commit of the PR branch
+    const git = LocalGit.forRepository(repository);
+    const reason = !(await isCheckedOut(pr))
+      ? `PR #${pr.number} is not checked out.`
+      : (await git.headSha().catch(() => undefined)) !== headSha
+      ? `The checkout of PR #${pr.number} is not at the reviewed commit.`
+      : undefined;
+    if (reason) {
+      const choice = await vscode.window.showErrorMessage(
+        `PRism: ${reason} Check out the PR branch at the reviewed commit to apply the patch.`,
+        'Check Out PR'
+      );
+      if (choice === 'Check Out PR') {
+        await vscode.commands.executeCommand('prism.checkoutPR', pr);
+      }
+      return;
+    }
+
+    const uri = vscode.Uri.joinPath(vscode.Uri.file(repository.rootPath), finding.filePath);
+    let doc: vscode.TextDocument;
+    try {
+      doc = await vscode.workspace.openTextDocument(uri);
+    } catch {
+      vscode.window.showErrorMessage(`PRism: ${finding.filePath} is not in the local checkout. Check out the PR branch to apply the patch.`);
+      return;
+    }
+
+    const { start, end } = findingLines(finding.suggestion);
+    if (end >= doc.lineCount) {
+      vscode.window.showErrorMessage(`PRism: ${finding.filePath} has no line ${end + 1}. Check out the PR branch to apply the patch.`);
+      return;
+    }
+    const range = new vscode.Range(start, 0, end, doc.lineAt(end).text.length);
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(uri, range, patch.replace(/\n$/, ''));
+    if (await vscode.workspace.applyEdit(edit)) {
+      await vscode.window.showTextDocument(doc, { selection: new vscode.Range(range.start, range.start) });
+      vscode.window.showInformationMessage(`PRism: Patch applied to ${finding.filePath}. Review and save the file.`);
+    }
+  });
+
   context.subscriptions.push(
+    new vscode.Disposable(() => mergeWatcher.dispose()),
     treeView,
+    prContent,
+    configWatcher,
+    setGitLabToken,
+    selectRepository,
     openPRList,
+    loadMorePRs,
+    filterPRs,
+    clearPRFilters,
+    sortPRs,
+    openFileDiff,
+    openFinding,
     reviewPR,
     reviewFile,
+    reviewWorkingTree,
+    reviewStaged,
+    reviewRange,
     generateSummary,
     showRiskAnalysis,
     applySuggestion,
@@ -538,7 +1652,22 @@ Format as markdown.`;
     multiModelReview,
     listModels,
     checkMergeStatus,
-    mergePR
+    mergePR,
+    enableAutoMerge,
+    cancelAutoMerge,
+    updateBranch,
+    createPR,
+    checkoutPR,
+    resolveConflict,
+    revertPR,
+    publishReview,
+    reviewComments,
+    reviewDiagnostics,
+    codeActions,
+    discardReview,
+    publishFinding,
+    dismissFinding,
+    applyFindingPatch
   );
 }
 
@@ -546,6 +1675,144 @@ export function deactivate(): void {
   // Cleanup handled via disposables
 }
 
+function getPostMergeSettings(): PostMergeSettings {
+  const config = vscode.workspace.getConfiguration('prism.postMerge');
+  return {
+    deleteRemoteBranch: config.get<boolean>('deleteRemoteBranch', true),
+    deleteLocalBranch: config.get<boolean>('deleteLocalBranch', true),
+    updateBaseBranch: config.get<boolean>('updateBaseBranch', true),
+    linkedIssues: config.get<LinkedIssueAction>('linkedIssues', 'none'),
+  };
+}
+
+/**
+ * The checkout a local review runs in: that of a target passed by the panel,
+ * the source control the git SCM view passes, the only checkout, the one
+ * holding the active editor, or a pick. Undefined if cancelled.
+ */
+async function pickRepositoryRoot(arg: unknown): Promise<string | undefined> {
+  const { rootPath, rootUri } = (arg ?? {}) as { rootPath?: unknown; rootUri?: unknown };
+  if (typeof rootPath === 'string') {
+    return rootPath;
+  }
+  if (rootUri instanceof vscode.Uri) {
+    return rootUri.fsPath;
+  }
+
+  const roots = await listRepositoryRoots();
+  if (roots.length === 0) {
+    vscode.window.showErrorMessage('PRism: No git repository is open in this workspace.');
+    return undefined;
+  }
+  if (roots.length === 1) {
+    return roots[0];
+  }
+  const active = vscode.window.activeTextEditor?.document.uri;
+  const containing = roots
+    .filter((root) => {
+      const relative = active?.scheme === 'file' ? path.relative(root, active.fsPath) : '..';
+      return !relative.startsWith('..') && !path.isAbsolute(relative);
+    })
+    .sort((a, b) => b.length - a.length)[0]; // innermost, for nested checkouts
+  if (containing) {
+    return containing;
+  }
+  const picked = await vscode.window.showQuickPick(
+    roots.map((root) => ({ label: path.basename(root), description: root, root })),
+    { placeHolder: 'Select the repository to review' }
+  );
+  return picked?.root;
+}
+
+/** The checkout's PR template, if it has one. */
+async function readPRTemplate(rootPath: string): Promise<string | undefined> {
+  for (const templatePath of PR_TEMPLATE_PATHS) {
+    try {
+      const bytes = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(vscode.Uri.file(rootPath), templatePath));
+      return Buffer.from(bytes).toString('utf8');
+    } catch {
+      // Not at this path
+    }
+  }
+  return undefined;
+}
+
+/** Ask for one of the repository's merge methods; undefined if cancelled. */
+async function pickMergeMethod(allowedMethods: MergeMethod[], title: string): Promise<MergeMethod | undefined> {
+  const methodItems: { label: string; description: string; method: MergeMethod }[] = [];
+  if (allowedMethods.includes('merge')) {
+    methodItems.push({ label: '$(git-merge) Merge Commit', description: 'Create a merge commit', method: 'merge' });
+  }
+  if (allowedMethods.includes('squash')) {
+    methodItems.push({ label: '$(fold) Squash and Merge', description: 'Squash all commits into one', method: 'squash' });
+  }
+  if (allowedMethods.includes('rebase')) {
+    methodItems.push({ label: '$(git-commit) Rebase and Merge', description: 'Rebase commits onto base branch', method: 'rebase' });
+  }
+
+  if (methodItems.length === 0) {
+    vscode.window.showErrorMessage('PRism: No merge methods available for this repository.');
+    return undefined;
+  }
+
+  const selected = await vscode.window.showQuickPick(methodItems, { placeHolder: 'Select merge method', title });
+  return selected?.method;
+}
+
+/**
+ * What reverting a merged PR undoes: a merge commit against its first (base)
+ * parent, every replayed commit of a rebase merge, or the single squash commit.
+ */
+async function revertRevision(
+  git: LocalGit,
+  commits: PullRequestCommit[],
+  mergeSha: string
+): Promise<{ revision: string; mainline?: number }> {
+  if ((await git.parents(mergeSha)).length > 1) {
+    return { revision: mergeSha, mainline: 1 };
+  }
+  // A rebase merge replays each PR commit, so the last one keeps its subject
+  const last = commits[commits.length - 1];
+  if (commits.length > 1 && (await git.subject(mergeSha)) === last.message.split('\n')[0]) {
+    return { revision: `${mergeSha}~${commits.length}..${mergeSha}` };
+  }
+  return { revision: mergeSha };
+}
+
+/** Pick a label or author to filter by from the loaded PRs' values; resolves to '' for "any" and undefined when dismissed. */
+async function pickFilterValue(kind: 'label' | 'author', values: string[]): Promise<string | undefined> {
+  const distinct = [...new Set(values)].sort((a, b) => a.localeCompare(b));
+  const picked = await vscode.window.showQuickPick(
+    [{ label: `Any ${kind}`, value: '' }, ...distinct.map((value) => ({ label: value, value }))],
+    { placeHolder: distinct.length > 0 ? `Show PRs with this ${kind}` : `No ${kind}s on the loaded PRs` }
+  );
+  return picked?.value;
+}
+
+function describeAutoMergeTrigger(autoMerge: AutoMerge): string {
+  return autoMerge.source === 'local'
+    ? `(${autoMerge.method}) once its checks pass, while this window stays open`
+    : `(${autoMerge.method}) once its requirements are met` + (autoMerge.enabledBy ? `, enabled by ${autoMerge.enabledBy}` : '');
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
+
+/** Poll `read` until `done` accepts its value; undefined if it never does within the timeout. */
+async function waitFor<T>(
+  read: () => Promise<T>,
+  done: (value: T) => boolean,
+  timeoutMs = 60_000,
+  intervalMs = 2_000
+): Promise<T | undefined> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const value = await read();
+    if (done(value)) {
+      return value;
+    }
+    await sleep(intervalMs);
+  }
+  return undefined;
+}
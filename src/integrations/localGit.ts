@@ -0,0 +1,370 @@
+import { execFile } from 'node:child_process';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { ConflictFile, PullRequest, RepositoryRef, ScmProvider } from '../types';
+import { getGitPath } from '../adapters/gitRemote';
+
+/** The ref a provider publishes a PR's head commit under, fetchable even for forks. */
+export function pullRequestRef(provider: ScmProvider, prNumber: number): string {
+  return provider === 'gitlab' ? `refs/merge-requests/${prNumber}/head` : `refs/pull/${prNumber}/head`;
+}
+
+/** Git's empty tree, the base for diffs in a repository without commits. */
+const EMPTY_TREE = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+/** Diff options that keep the output parseable regardless of the user's git config. */
+const DIFF_OPTIONS = ['--no-color', '--no-ext-diff', '--src-prefix=a/', '--dst-prefix=b/'];
+
+/** Branch config key (`branch.<name>.prismPullRequest`) recording the PR a branch was checked out for. */
+export const CHECKED_OUT_PR_KEY = 'prismPullRequest';
+
+/** What a local branch's config says about the PR it holds. */
+export interface LocalBranch {
+  branch: string;
+  prUrl?: string; // recorded by prism.checkoutPR
+  upstream?: { remote: string; branch: string };
+}
+
+/**
+ * Whether a local branch holds a PR's head: `prism.checkoutPR` recorded the PR
+ * on it, or, for a PR from this repository, it is the same-named branch that
+ * tracks the PR branch (as the PR's author has it). A branch recorded for
+ * another PR, or one that merely shares a fork branch's name, does not count.
+ */
+export function holdsPullRequest(
+  local: LocalBranch,
+  pr: Pick<PullRequest, 'url' | 'headBranch' | 'fromFork'>,
+  remoteName: string
+): boolean {
+  if (local.prUrl) {
+    return local.prUrl === pr.url;
+  }
+  return (
+    !pr.fromFork &&
+    local.branch === pr.headBranch &&
+    local.upstream?.remote === remoteName &&
+    local.upstream.branch === pr.headBranch
+  );
+}
+
+/**
+ * Runs the git CLI in a local checkout for work the hosting APIs can't do:
+ * computing conflicts, checking out PR branches and starting local merges.
+ */
+export class LocalGit {
+  constructor(
+    private readonly rootPath: string,
+    private readonly remoteName = 'origin' // only used to fetch and push
+  ) {}
+
+  static forRepository(repository: RepositoryRef): LocalGit {
+    return new LocalGit(repository.rootPath, repository.remoteName);
+  }
+
+  /** Fetch a ref from the remote without creating local branches; resolves to its commit SHA. */
+  async fetch(ref: string): Promise<string> {
+    await this.run(['fetch', '--no-tags', this.remoteName, ref]);
+    return (await this.run(['rev-parse', 'FETCH_HEAD^{commit}'])).stdout.trim();
+  }
+
+  /**
+   * Files that conflict when merging `headSha` into `baseSha`, computed with
+   * `git merge-tree --write-tree` so the working tree is never touched.
+   * Needs git 2.38 or newer.
+   */
+  async findConflicts(baseSha: string, headSha: string): Promise<ConflictFile[]> {
+    let result: { stdout: string; exitCode: number };
+    try {
+      result = await this.run(['merge-tree', '--write-tree', '--name-only', '-z', baseSha, headSha], [0, 1]);
+    } catch (err) {
+      // Older git only knows the trivial-merge form and prints its usage
+      if (err instanceof Error && /usage: git merge-tree/i.test(err.message)) {
+        throw new Error('Detecting conflicts locally needs git 2.38 or newer.');
+      }
+      throw err;
+    }
+    if (result.exitCode === 0) {
+      return [];
+    }
+
+    // <tree>\0<path>\0...\0\0 then messages as <count>\0<path>\0...<type>\0<message>\0
+    const fields = result.stdout.split('\0');
+    const tree = fields[0];
+    const conflicts: ConflictFile[] = [];
+    let i = 1;
+    for (; i < fields.length && fields[i] !== ''; i++) {
+      conflicts.push({ filePath: fields[i], conflictMarkers: 0 });
+    }
+    for (i++; i < fields.length; ) {
+      const count = parseInt(fields[i], 10);
+      if (isNaN(count)) {
+        break;
+      }
+      const paths = fields.slice(i + 1, i + 1 + count);
+      const type = fields[i + 1 + count] ?? '';
+      const kind = type.match(/^CONFLICT \(([^)]+)\)/)?.[1];
+      for (const conflict of conflicts) {
+        if (kind && !conflict.conflictType && paths.includes(conflict.filePath)) {
+          conflict.conflictType = kind;
+        }
+      }
+      i += count + 3;
+    }
+
+    for (const conflict of conflicts) {
+      try {
+        const { stdout } = await this.run(['cat-file', '-p', `${tree}:${conflict.filePath}`]);
+        conflict.conflictMarkers = stdout.match(/^<{7}(?: |$)/gm)?.length ?? 0;
+      } catch {
+        // Deleted on one side: nothing to count
+      }
+    }
+    return conflicts;
+  }
+
+  async isClean(): Promise<boolean> {
+    const { stdout } = await this.run(['status', '--porcelain', '--untracked-files=no']);
+    return stdout.trim() === '';
+  }
+
+  /** True while a merge stopped for conflict resolution is in progress. */
+  async isMerging(): Promise<boolean> {
+    const { exitCode } = await this.run(['rev-parse', '-q', '--verify', 'MERGE_HEAD'], [0, 1]);
+    return exitCode === 0;
+  }
+
+  async currentBranch(): Promise<string> {
+    return (await this.run(['rev-parse', '--abbrev-ref', 'HEAD'])).stdout.trim();
+  }
+
+  /**
+   * Check out `branch` at `sha`, creating it or fast-forwarding it. A local
+   * branch with commits that `sha` does not contain is left alone.
+   */
+  async checkout(branch: string, sha: string): Promise<void> {
+    const existing = await this.branchSha(branch);
+    if (existing && !(await this.isAncestor(existing, sha))) {
+      throw new Error(`Local branch "${branch}" has commits that are not on the PR. Push or rename it first.`);
+    }
+    await this.run(['checkout', '-B', branch, sha]);
+  }
+
+  async headSha(): Promise<string> {
+    return (await this.run(['rev-parse', 'HEAD'])).stdout.trim();
+  }
+
+  /** The PR URL recorded for a local branch by `prism.checkoutPR`, and the remote branch it tracks. */
+  async describeBranch(branch: string): Promise<LocalBranch> {
+    return {
+      branch,
+      prUrl: await this.getConfig(`branch.${branch}.${CHECKED_OUT_PR_KEY}`),
+      upstream: await this.upstreamOf(branch),
+    };
+  }
+
+  /** The local branch holding the PR's head (see `holdsPullRequest`), if there is one. */
+  async pullRequestBranch(pr: Pick<PullRequest, 'url' | 'headBranch' | 'fromFork'>): Promise<string | undefined> {
+    // Config names are matched lowercased; the branch part keeps its case
+    const { stdout } = await this.run(['config', '--get-regexp', `^branch\\..*\\.${CHECKED_OUT_PR_KEY.toLowerCase()}$`], [0, 1]);
+    for (const line of stdout.split('\n').filter(Boolean)) {
+      const separator = line.indexOf(' ');
+      const key = line.slice(0, separator);
+      const branch = key.slice('branch.'.length, -`.${CHECKED_OUT_PR_KEY}`.length);
+      if (line.slice(separator + 1) === pr.url && (await this.branchSha(branch))) {
+        return branch;
+      }
+    }
+    if (
+      (await this.branchSha(pr.headBranch)) &&
+      holdsPullRequest(await this.describeBranch(pr.headBranch), pr, this.remoteName)
+    ) {
+      return pr.headBranch;
+    }
+    return undefined;
+  }
+
+  /** Commit a local branch points at; undefined if there is no such branch. */
+  async branchSha(branch: string): Promise<string | undefined> {
+    const { stdout, exitCode } = await this.run(['rev-parse', '-q', '--verify', `refs/heads/${branch}^{commit}`], [0, 1]);
+    return exitCode === 0 ? stdout.trim() : undefined;
+  }
+
+  /** Make `branch` pull from and push to `remoteBranch` of `remote`, a remote name or a fork's clone URL. */
+  async setUpstream(branch: string, remote: string, remoteBranch: string): Promise<void> {
+    await this.setConfig(`branch.${branch}.remote`, remote);
+    await this.setConfig(`branch.${branch}.merge`, `refs/heads/${remoteBranch}`);
+  }
+
+  /** The remote and remote branch `branch` pulls from; undefined if it has no upstream. */
+  async upstreamOf(branch: string): Promise<{ remote: string; branch: string } | undefined> {
+    const remote = await this.getConfig(`branch.${branch}.remote`);
+    const merge = await this.getConfig(`branch.${branch}.merge`);
+    return remote && merge ? { remote, branch: merge.replace(/^refs\/heads\//, '') } : undefined;
+  }
+
+  /** Push `branch` to `remoteBranch` on the remote and make that its upstream. */
+  async pushBranch(branch: string, remoteBranch = branch): Promise<void> {
+    await this.run(['push', '--set-upstream', this.remoteName, `refs/heads/${branch}:refs/heads/${remoteBranch}`]);
+  }
+
+  /** Branches of the remote as last fetched, most recently committed first, with its default branch at the top. */
+  async remoteBranches(): Promise<string[]> {
+    const prefix = `refs/remotes/${this.remoteName}/`;
+    const { stdout } = await this.run(['for-each-ref', '--sort=-committerdate', '--format=%(refname)', prefix]);
+    const branches = stdout
+      .split('\n')
+      .filter((ref) => ref.startsWith(prefix) && ref !== `${prefix}HEAD`)
+      .map((ref) => ref.slice(prefix.length));
+    const head = await this.run(['symbolic-ref', '-q', `${prefix}HEAD`], [0, 1]);
+    const defaultBranch = head.exitCode === 0 ? head.stdout.trim().slice(prefix.length) : undefined;
+    return defaultBranch && branches.includes(defaultBranch)
+      ? [defaultBranch, ...branches.filter((b) => b !== defaultBranch)]
+      : branches;
+  }
+
+  /** Number of commits in `range`, e.g. `upstream..branch`. */
+  async countCommits(range: string): Promise<number> {
+    return parseInt((await this.run(['rev-list', '--count', range])).stdout.trim(), 10);
+  }
+
+  /** Full messages of the commits in `range`, oldest first. */
+  async commitMessages(range: string): Promise<string[]> {
+    const { stdout } = await this.run(['log', '--reverse', '--format=%B%x00', range]);
+    return stdout
+      .split('\0')
+      .map((message) => message.trim())
+      .filter(Boolean);
+  }
+
+  async getConfig(key: string): Promise<string | undefined> {
+    const { stdout, exitCode } = await this.run(['config', '--get', key], [0, 1]);
+    return exitCode === 0 ? stdout.trim() : undefined;
+  }
+
+  async setConfig(key: string, value: string): Promise<void> {
+    await this.run(['config', key, value]);
+  }
+
+  /**
+   * Unified diff of the uncommitted changes against HEAD: what is staged when
+   * `staged`, otherwise everything in the working tree, with untracked (but not
+   * ignored) files as added files. Needs no network access.
+   */
+  async diffUncommitted(staged: boolean): Promise<string> {
+    const { exitCode } = await this.run(['rev-parse', '-q', '--verify', 'HEAD^{commit}'], [0, 1]);
+    const base = exitCode === 0 ? 'HEAD' : EMPTY_TREE;
+    if (staged) {
+      return (await this.run(['diff', '--cached', ...DIFF_OPTIONS, base])).stdout;
+    }
+
+    let diff = (await this.run(['diff', ...DIFF_OPTIONS, base])).stdout;
+    const { stdout } = await this.run(['ls-files', '--others', '--exclude-standard', '-z']);
+    for (const file of stdout.split('\0').filter(Boolean)) {
+      // --no-index exits with 1 when the files differ, which they always do here
+      diff += (await this.run(['diff', '--no-index', ...DIFF_OPTIONS, '--', '/dev/null', file], [0, 1])).stdout;
+    }
+    return diff;
+  }
+
+  /** Unified diff of the commits in `base..head`, from their merge base to `head` like a PR's diff. */
+  async diffRange(base: string, head: string): Promise<string> {
+    for (const ref of [base, head]) {
+      const exists =
+        !ref.startsWith('-') && (await this.run(['rev-parse', '-q', '--verify', `${ref}^{commit}`], [0, 1])).exitCode === 0;
+      if (!exists) {
+        throw new Error(`"${ref}" is not a branch, tag or commit in this repository.`);
+      }
+    }
+    return (await this.run(['diff', ...DIFF_OPTIONS, `${base}...${head}`])).stdout;
+  }
+
+  async isAncestor(ancestor: string, sha: string): Promise<boolean> {
+    const { exitCode } = await this.run(['merge-base', '--is-ancestor', ancestor, sha], [0, 1]);
+    return exitCode === 0;
+  }
+
+  /** Switch to `branch`, creating it from the remote branch of the same name if needed. */
+  async switchTo(branch: string): Promise<void> {
+    const exists = (await this.branchSha(branch)) !== undefined;
+    await this.run(exists ? ['checkout', branch] : ['checkout', '-b', branch, '--track', `${this.remoteName}/${branch}`]);
+  }
+
+  /**
+   * Fast-forward a local branch to the remote. The checked-out branch is
+   * pulled; any other branch is updated in place without checking it out.
+   */
+  async fastForward(branch: string): Promise<void> {
+    if ((await this.currentBranch()) === branch) {
+      await this.run(['pull', '--ff-only', '--no-tags', this.remoteName, branch]);
+    } else {
+      await this.run(['fetch', '--no-tags', this.remoteName, `refs/heads/${branch}:refs/heads/${branch}`]);
+    }
+  }
+
+  /** Force-delete a local branch; squash and rebase merges leave it unmerged as far as git can tell. */
+  async deleteBranch(branch: string): Promise<void> {
+    await this.run(['branch', '-D', branch]);
+  }
+
+  /** Merge `sha` into HEAD without committing; resolves to true when it stopped on conflicts. */
+  async mergeWithoutCommit(sha: string, message: string): Promise<boolean> {
+    const { exitCode } = await this.run(['merge', '--no-ff', '--no-commit', '-m', message, sha], [0, 1]);
+    return exitCode === 1;
+  }
+
+  /** Parent commits of `sha`; two or more for a merge commit. */
+  async parents(sha: string): Promise<string[]> {
+    const { stdout } = await this.run(['rev-list', '--parents', '-n', '1', sha]);
+    return stdout.trim().split(/\s+/).slice(1);
+  }
+
+  async subject(sha: string): Promise<string> {
+    return (await this.run(['log', '-1', '--format=%s', sha])).stdout.trim();
+  }
+
+  /**
+   * Revert commits on top of `baseSha` and push the result as a new remote
+   * branch. Works in a temporary worktree, so the user's checkout and any
+   * uncommitted changes are never touched. `revision` is a commit or a
+   * `from..to` range; `mainline` picks the parent to keep when reverting a
+   * merge commit.
+   */
+  async pushRevert(branch: string, baseSha: string, revision: string, mainline?: number): Promise<string> {
+    const dir = await mkdtemp(path.join(tmpdir(), 'prism-revert-'));
+    try {
+      await this.run(['worktree', 'add', '--detach', dir, baseSha]);
+      const revert = ['-C', dir, 'revert', '--no-edit', ...(mainline ? ['-m', String(mainline)] : []), revision];
+      try {
+        await this.run(revert);
+      } catch (err) {
+        throw new Error(`The changes no longer revert cleanly on top of the base branch. ${(err as Error).message}`);
+      }
+      await this.run(['-C', dir, 'push', this.remoteName, `HEAD:refs/heads/${branch}`]);
+      return (await this.run(['-C', dir, 'rev-parse', 'HEAD'])).stdout.trim();
+    } finally {
+      await this.run(['worktree', 'remove', '--force', dir]).catch(() => undefined);
+      await rm(dir, { recursive: true, force: true });
+    }
+  }
+
+  async run(args: string[], okExitCodes: number[] = [0]): Promise<{ stdout: string; exitCode: number }> {
+    const gitPath = await getGitPath();
+    return new Promise((resolve, reject) => {
+      execFile(
+        gitPath,
+        args,
+        { cwd: this.rootPath, maxBuffer: 64 * 1024 * 1024, encoding: 'utf8' },
+        (error, stdout, stderr) => {
+          const exitCode = error ? (typeof error.code === 'number' ? error.code : undefined) : 0;
+          if (exitCode !== undefined && okExitCodes.includes(exitCode)) {
+            resolve({ stdout, exitCode });
+            return;
+          }
+          const detail = stderr.trim() || error?.message || 'unknown error';
+          reject(new Error(`git ${args[0]} failed: ${detail}`));
+        }
+      );
+    });
+  }
+}
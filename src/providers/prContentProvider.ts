@@ -0,0 +1,49 @@
+import * as vscode from 'vscode';
+import { IScmRouter, RepositoryRef } from '../types';
+
+export const PR_SCHEME = 'prism-pr';
+
+const MAX_CACHED_FILES = 200;
+
+/** Where a `prism-pr:` document's content comes from; carried in the URI query. */
+interface PRFileQuery {
+  ref: string;
+  repository?: RepositoryRef;
+}
+
+/**
+ * Serves PR file contents at a given commit as read-only `prism-pr:` documents,
+ * so `vscode.diff` can show a PR file side by side without checking it out.
+ * The path part is the file path (which keeps language detection working) and
+ * the query names the commit and repository.
+ */
+export class PRContentProvider implements vscode.TextDocumentContentProvider {
+  // Refs are commit SHAs, so cached contents never go stale; the oldest are dropped first
+  private readonly cache = new Map<string, string>();
+
+  constructor(private readonly scm: IScmRouter) {}
+
+  static uri(filePath: string, ref: string, repository?: RepositoryRef): vscode.Uri {
+    const query: PRFileQuery = { ref, repository };
+    return vscode.Uri.from({ scheme: PR_SCHEME, path: `/${filePath}`, query: JSON.stringify(query) });
+  }
+
+  async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const key = uri.toString();
+    const cached = this.cache.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const { ref, repository } = JSON.parse(uri.query) as PRFileQuery;
+    const adapter = repository ? await this.scm.adapterFor(repository) : this.scm;
+    // A file that does not exist on one side (added or deleted) diffs against an empty document
+    const content = (await adapter.getFileContent(uri.path.slice(1), ref)) ?? '';
+
+    this.cache.set(key, content);
+    if (this.cache.size > MAX_CACHED_FILES) {
+      this.cache.delete(this.cache.keys().next().value as string);
+    }
+    return content;
+  }
+}
@@ -1,22 +1,57 @@
 import * as vscode from 'vscode';
-import { PullRequest, IGitHubAdapter } from '../types';
+import * as path from 'path';
+import {
+  PullRequest,
+  PullRequestPage,
+  RepositoryRef,
+  IScmRouter,
+  IScmAdapter,
+  AutoMerge,
+  PRFilter,
+  ChangedFile,
+  RiskReport,
+  ReviewResult,
+  ReviewSuggestion,
+} from '../types';
+import { repositoryKey } from '../adapters/scmRouter';
+import { MergeWatcher } from '../core/mergeWatcher';
+import { DEFAULT_PR_FILTER, filterPullRequests, needsCurrentUser } from '../core/prFilter';
+import { LocalGit, LocalBranch, holdsPullRequest } from '../integrations/localGit';
+
+const PR_FILTER_KEY = 'prism.prFilter';
 
 export class PRTreeItem extends vscode.TreeItem {
   constructor(
     public readonly pr: PullRequest,
-    collapsibleState: vscode.TreeItemCollapsibleState = vscode.TreeItemCollapsibleState.None
+    checkedOut = false,
+    collapsibleState: vscode.TreeItemCollapsibleState = vscode.TreeItemCollapsibleState.Collapsed
   ) {
     super(`#${pr.number}: ${pr.title}`, collapsibleState);
-    this.description = `by ${pr.author} · ${pr.changedFilesCount} file(s)`;
+    this.id = pr.url;
+    this.description =
+      (checkedOut ? '✓ checked out · ' : '') +
+      (pr.draft ? 'Draft · ' : '') +
+      `by ${pr.author} · ${pr.changedFilesCount} file(s)` +
+      (pr.labels?.length ? ` · ${pr.labels.join(', ')}` : '') +
+      (pr.autoMerge ? ' · auto-merge' : '');
     this.tooltip = new vscode.MarkdownString(
-      `**PR #${pr.number}**: ${pr.title}\n\n` +
+      `**PR #${pr.number}**: ${pr.title}${pr.draft ? ' (draft)' : ''}\n\n` +
+      (pr.repository ? `- Repository: ${pr.repository.owner}/${pr.repository.repo}\n` : '') +
       `- Author: ${pr.author}\n` +
-      `- Branch: \`${pr.headBranch}\` → \`${pr.baseBranch}\`\n` +
+      `- Branch: \`${pr.headBranch}\` → \`${pr.baseBranch}\`${checkedOut ? ' (checked out)' : ''}\n` +
       `- Files changed: ${pr.changedFilesCount}\n` +
-      `- Created: ${new Date(pr.createdAt).toLocaleDateString()}`
+      (pr.labels?.length ? `- Labels: ${pr.labels.join(', ')}\n` : '') +
+      (pr.requestedReviewers?.length ? `- Review requested from: ${pr.requestedReviewers.join(', ')}\n` : '') +
+      (pr.assignees?.length ? `- Assignees: ${pr.assignees.join(', ')}\n` : '') +
+      (pr.mergeableState && pr.mergeableState !== 'unknown' ? `- Merge state: ${pr.mergeableState}\n` : '') +
+      `- Created: ${new Date(pr.createdAt).toLocaleDateString()}` +
+      (pr.updatedAt ? `\n- Updated: ${new Date(pr.updatedAt).toLocaleDateString()}` : '') +
+      (pr.autoMerge ? `\n- Auto-merge: ${describeAutoMerge(pr.autoMerge)}` : '')
+    );
+    this.iconPath = new vscode.ThemeIcon(
+      pr.autoMerge ? 'git-pull-request-go' : pr.draft ? 'git-pull-request-draft' : 'git-pull-request'
     );
-    this.iconPath = new vscode.ThemeIcon('git-pull-request');
-    this.contextValue = 'pullRequest';
+    this.contextValue = pr.autoMerge ? 'pullRequest.autoMerge' : 'pullRequest';
     this.command = {
       command: 'prism.reviewPR',
       title: 'Review PR',
@@ -25,39 +60,342 @@ export class PRTreeItem extends vscode.TreeItem {
   }
 }
 
-export class PRTreeProvider implements vscode.TreeDataProvider<PRTreeItem> {
-  private _onDidChangeTreeData = new vscode.EventEmitter<PRTreeItem | undefined | null | void>();
+function describeAutoMerge(autoMerge: AutoMerge): string {
+  const when = autoMerge.source === 'local' ? 'when checks pass, while this window is open' : 'when requirements are met';
+  return `${autoMerge.method} ${when}` + (autoMerge.enabledBy ? ` (enabled by ${autoMerge.enabledBy})` : '');
+}
+
+const FILE_STATUS_ICONS: Record<ChangedFile['status'], [icon: string, color: string]> = {
+  added: ['diff-added', 'gitDecoration.addedResourceForeground'],
+  modified: ['diff-modified', 'gitDecoration.modifiedResourceForeground'],
+  deleted: ['diff-removed', 'gitDecoration.deletedResourceForeground'],
+  renamed: ['diff-renamed', 'gitDecoration.renamedResourceForeground'],
+};
+
+/** A file changed by a PR; expands into the findings of the last review. */
+export class FileTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly pr: PullRequest,
+    public readonly file: ChangedFile,
+    public readonly risk: RiskReport | undefined,
+    public readonly findings: ReviewSuggestion[]
+  ) {
+    super(
+      path.posix.basename(file.filePath),
+      findings.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+    );
+    this.id = `${pr.url}#${file.filePath}`;
+    const dir = path.posix.dirname(file.filePath);
+    this.description =
+      (dir === '.' ? '' : `${dir} · `) +
+      `+${file.additions} −${file.deletions}` +
+      (risk ? ` · ${risk.level} risk` : '') +
+      (findings.length > 0 ? ` · ${findings.length} finding(s)` : '');
+    this.tooltip = new vscode.MarkdownString(
+      `**${file.filePath}** (${file.status})\n\n` +
+      `- Lines: +${file.additions} −${file.deletions}` +
+      (risk ? `\n- Risk: ${risk.level} (${risk.score}/100)${risk.reasons.length ? ` — ${risk.reasons.join('; ')}` : ''}` : '')
+    );
+    const [icon, color] = FILE_STATUS_ICONS[file.status];
+    this.iconPath = new vscode.ThemeIcon(icon, new vscode.ThemeColor(color));
+    this.contextValue = 'changedFile';
+    this.command = {
+      command: 'prism.openFileDiff',
+      title: 'Open Diff',
+      arguments: [pr, file.filePath, file.previousPath],
+    };
+  }
+}
+
+const SEVERITY_ICONS: Record<ReviewSuggestion['severity'], [icon: string, color: string]> = {
+  error: ['error', 'problemsErrorIcon.foreground'],
+  warning: ['warning', 'problemsWarningIcon.foreground'],
+  info: ['info', 'problemsInfoIcon.foreground'],
+};
+
+/** One review finding; opens its file at the line. */
+export class FindingTreeItem extends vscode.TreeItem {
+  constructor(
+    public readonly pr: PullRequest,
+    public readonly filePath: string,
+    public readonly finding: ReviewSuggestion,
+    index: number
+  ) {
+    super(finding.message.split('\n')[0], vscode.TreeItemCollapsibleState.None);
+    this.id = `${pr.url}#${filePath}:${index}`;
+    this.description = `line ${finding.line}` + (finding.category ? ` · ${finding.category}` : '');
+    this.tooltip = new vscode.MarkdownString(
+      `**${finding.severity}** — ${filePath}:${finding.line}\n\n${finding.message}` +
+      (finding.patch ? `\n\n\`\`\`\n${finding.patch}\n\`\`\`` : '')
+    );
+    const [icon, color] = SEVERITY_ICONS[finding.severity];
+    this.iconPath = new vscode.ThemeIcon(icon, new vscode.ThemeColor(color));
+    this.contextValue = 'finding';
+    this.command = {
+      command: 'prism.openFinding',
+      title: 'Go to Finding',
+      arguments: [pr, filePath, finding.line],
+    };
+  }
+}
+
+export class RepositoryTreeItem extends vscode.TreeItem {
+  constructor(public readonly repository: RepositoryRef) {
+    super(`${repository.owner}/${repository.repo}`, vscode.TreeItemCollapsibleState.Expanded);
+    this.description = `${repository.remoteName} · ${repository.host}`;
+    this.tooltip = repository.rootPath;
+    this.iconPath = new vscode.ThemeIcon('repo');
+    this.contextValue = 'repository';
+  }
+}
+
+export class LoadMoreTreeItem extends vscode.TreeItem {
+  constructor(groupKey: string) {
+    super('Load more…', vscode.TreeItemCollapsibleState.None);
+    this.iconPath = new vscode.ThemeIcon('ellipsis');
+    this.contextValue = 'loadMore';
+    this.command = {
+      command: 'prism.loadMorePRs',
+      title: 'Load More Pull Requests',
+      arguments: [groupKey],
+    };
+  }
+}
+
+export type PRTreeNode = RepositoryTreeItem | PRTreeItem | FileTreeItem | FindingTreeItem | LoadMoreTreeItem;
+
+/** Lazily paged open PRs of one repository. */
+interface PRGroup {
+  repository: RepositoryRef;
+  adapter: IScmAdapter;
+  currentUser?: string; // fetched once a filter needs it
+  currentTeams?: string[]; // fetched with currentUser, for review requests to a team
+  prs: PullRequest[];
+  pages: AsyncIterableIterator<PullRequestPage>;
+  hasMore: boolean;
+  loading: boolean;
+}
+
+/** What the last review or risk analysis of a PR found, per file path. */
+interface PRReview {
+  risks: Map<string, RiskReport>;
+  findings: Map<string, ReviewSuggestion[]>;
+}
+
+export class PRTreeProvider implements vscode.TreeDataProvider<PRTreeNode> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<PRTreeNode | undefined | null | void>();
   readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
 
-  private prs: PullRequest[] = [];
-  private loading = false;
+  private groups = new Map<string, PRGroup>();
+  private repositories: RepositoryRef[] | undefined;
+  private readonly files = new Map<string, ChangedFile[]>(); // keyed by PR web URL
+  private readonly reviews = new Map<string, PRReview>(); // keyed by PR web URL, kept across refreshes
+
+  constructor(
+    private readonly scm: IScmRouter,
+    private readonly mergeWatcher: MergeWatcher,
+    private readonly workspaceState: vscode.Memento
+  ) {}
+
+  /** The filter and sort order, remembered per workspace. */
+  get filter(): PRFilter {
+    return { ...DEFAULT_PR_FILTER, ...this.workspaceState.get<Partial<PRFilter>>(PR_FILTER_KEY) };
+  }
+
+  /** Apply a new filter. Filters only redraw the loaded PRs; a new sort order reloads them from the first page. */
+  async setFilter(filter: PRFilter): Promise<void> {
+    const resort = filter.sort !== this.filter.sort;
+    await this.workspaceState.update(PR_FILTER_KEY, filter);
+    if (resort) {
+      this.refresh();
+    } else {
+      this.redraw();
+    }
+  }
 
-  constructor(private readonly github: IGitHubAdapter) {}
+  /** Every PR loaded so far, across repositories (e.g. to offer their labels and authors as filters). */
+  get loadedPullRequests(): PullRequest[] {
+    return [...this.groups.values()].flatMap((group) => group.prs);
+  }
 
   refresh(): void {
+    this.groups.clear();
+    this.repositories = undefined;
+    this.files.clear();
+    this._onDidChangeTreeData.fire();
+  }
+
+  /** Show a review's findings and risk levels under the PR's files. */
+  setReview(pr: PullRequest, results: ReviewResult[], riskReports: RiskReport[]): void {
+    const findings = new Map<string, ReviewSuggestion[]>();
+    for (const result of results) {
+      findings.set(result.filePath, [...(findings.get(result.filePath) ?? []), ...result.suggestions]);
+    }
+    for (const list of findings.values()) {
+      list.sort((a, b) => a.line - b.line);
+    }
+    this.reviews.set(pr.url, { risks: new Map(riskReports.map((r) => [r.filePath, r])), findings });
     this._onDidChangeTreeData.fire();
   }
 
-  getTreeItem(element: PRTreeItem): vscode.TreeItem {
+  /** Forget the PR's review and risk analysis. */
+  clearReview(pr: PullRequest): void {
+    if (this.reviews.delete(pr.url)) {
+      this._onDidChangeTreeData.fire();
+    }
+  }
+
+  /** Drop a dismissed finding from the PR's file. */
+  removeFinding(pr: PullRequest, filePath: string, finding: ReviewSuggestion): void {
+    const findings = this.reviews.get(pr.url)?.findings;
+    const list = findings?.get(filePath);
+    if (findings && list) {
+      findings.set(filePath, list.filter((f) => f !== finding));
+      this._onDidChangeTreeData.fire();
+    }
+  }
+
+  /** Show risk levels from a risk analysis, keeping the findings of an earlier review. */
+  setRiskReports(pr: PullRequest, riskReports: RiskReport[]): void {
+    const review = this.reviews.get(pr.url);
+    this.reviews.set(pr.url, {
+      risks: new Map(riskReports.map((r) => [r.filePath, r])),
+      findings: review?.findings ?? new Map(),
+    });
+    this._onDidChangeTreeData.fire();
+  }
+
+  /** Redraw the loaded PRs without fetching them again, e.g. when a local auto-merge starts or ends. */
+  redraw(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  async loadMore(groupKey: string): Promise<void> {
+    const group = this.groups.get(groupKey);
+    if (group) {
+      await this.fetchNextPage(group);
+      this._onDidChangeTreeData.fire();
+    }
+  }
+
+  getTreeItem(element: PRTreeNode): vscode.TreeItem {
     return element;
   }
 
-  async getChildren(element?: PRTreeItem): Promise<PRTreeItem[]> {
+  async getChildren(element?: PRTreeNode): Promise<PRTreeNode[]> {
+    if (element instanceof RepositoryTreeItem) {
+      return this.getGroupChildren(element.repository);
+    }
+    if (element instanceof PRTreeItem) {
+      return this.getFileChildren(element.pr);
+    }
+    if (element instanceof FileTreeItem) {
+      return element.findings.map((finding, i) => new FindingTreeItem(element.pr, element.file.filePath, finding, i));
+    }
     if (element) {
       return [];
     }
-    if (this.loading) {
+
+    try {
+      if (!this.repositories) {
+        this.repositories = await this.scm.getActiveRepositories();
+      }
+      if (this.repositories.length > 1) {
+        return this.repositories.map((repository) => new RepositoryTreeItem(repository));
+      }
+      return await this.getGroupChildren(this.repositories[0] ?? (await this.scm.getRepository()));
+    } catch (err) {
+      vscode.window.showErrorMessage(`PRism: Failed to load PRs — ${(err as Error).message}`);
       return [];
     }
-    this.loading = true;
+  }
+
+  private async getGroupChildren(repository: RepositoryRef): Promise<PRTreeNode[]> {
+    const key = repositoryKey(repository);
+    let group = this.groups.get(key);
+    const filter = this.filter;
+    if (!group) {
+      const pageSize = vscode.workspace.getConfiguration('prism').get<number>('prPageSize', 50);
+      const adapter = await this.scm.adapterFor(repository);
+      group = {
+        repository,
+        adapter,
+        prs: [],
+        pages: adapter.listOpenPRPages(pageSize, filter.sort),
+        hasMore: true,
+        loading: false,
+      };
+      this.groups.set(key, group);
+      await this.fetchNextPage(group);
+    }
+    if (needsCurrentUser(filter) && !group.currentUser) {
+      try {
+        group.currentUser = await group.adapter.getCurrentUser();
+        group.currentTeams = await group.adapter.getCurrentUserTeams();
+      } catch (err) {
+        vscode.window.showErrorMessage(`PRism: Failed to look up the signed-in user — ${(err as Error).message}`);
+      }
+    }
+    const checkedOut = await checkedOutBranch(repository);
+    const items: PRTreeNode[] = filterPullRequests(group.prs, filter, group.currentUser, group.currentTeams).map(
+      (pr) =>
+        new PRTreeItem(
+          { ...pr, autoMerge: pr.autoMerge ?? this.mergeWatcher.autoMergeFor(pr) },
+          !!checkedOut && holdsPullRequest(checkedOut, pr, repository.remoteName)
+        )
+    );
+    if (group.hasMore) {
+      items.push(new LoadMoreTreeItem(key));
+    }
+    return items;
+  }
+
+  private async getFileChildren(pr: PullRequest): Promise<PRTreeNode[]> {
+    let files = this.files.get(pr.url);
+    if (!files) {
+      try {
+        const adapter = pr.repository ? await this.scm.adapterFor(pr.repository) : this.scm;
+        files = (await adapter.getChangedFiles(pr.number)).files;
+        this.files.set(pr.url, files);
+      } catch (err) {
+        vscode.window.showErrorMessage(`PRism: Failed to load the files of PR #${pr.number} — ${(err as Error).message}`);
+        return [];
+      }
+    }
+    const review = this.reviews.get(pr.url);
+    return files.map(
+      (file) => new FileTreeItem(pr, file, review?.risks.get(file.filePath), review?.findings.get(file.filePath) ?? [])
+    );
+  }
+
+  private async fetchNextPage(group: PRGroup): Promise<void> {
+    if (group.loading || !group.hasMore) {
+      return;
+    }
+    group.loading = true;
     try {
-      this.prs = await this.github.listOpenPRs();
-      return this.prs.map((pr) => new PRTreeItem(pr));
+      const next = await group.pages.next();
+      if (next.done) {
+        group.hasMore = false;
+        return;
+      }
+      group.prs.push(...next.value.pullRequests.map((pr) => ({ ...pr, repository: group.repository })));
+      group.hasMore = next.value.hasMore;
     } catch (err) {
+      group.hasMore = false;
       vscode.window.showErrorMessage(`PRism: Failed to load PRs — ${(err as Error).message}`);
-      return [];
     } finally {
-      this.loading = false;
+      group.loading = false;
     }
   }
 }
+
+/** The branch checked out in the repository, with the PR `prism.checkoutPR` recorded for it. */
+async function checkedOutBranch(repository: RepositoryRef): Promise<LocalBranch | undefined> {
+  try {
+    const git = LocalGit.forRepository(repository);
+    return await git.describeBranch(await git.currentBranch());
+  } catch {
+    return undefined; // Not a local checkout, or git is unavailable
+  }
+}
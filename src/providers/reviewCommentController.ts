@@ -0,0 +1,157 @@
+import * as vscode from 'vscode';
+import { PullRequest, ReviewComment, ReviewFinding } from '../types';
+
+/** Where a PR's threads go: the head side of the PR diff editor, and the local checkout when it has the PR branch. */
+export interface ThreadTargets {
+  headUri(filePath: string): vscode.Uri;
+  localUri?(filePath: string): vscode.Uri;
+}
+
+/** A finding and every thread it is shown in. */
+export interface FindingThreads {
+  pr: PullRequest;
+  headSha: string; // the reviewed head commit the finding's lines refer to
+  finding: ReviewFinding;
+  threads: vscode.CommentThread[];
+}
+
+class PRismComment implements vscode.Comment {
+  mode = vscode.CommentMode.Preview;
+
+  constructor(
+    public body: vscode.MarkdownString,
+    public author: vscode.CommentAuthorInformation,
+    public contextValue?: string,
+    public label?: string,
+    public timestamp?: Date
+  ) {}
+}
+
+/**
+ * Shows review findings as comment threads, next to the line comments people
+ * already left on the PR. A thread's `contextValue` drives its title actions:
+ * `prismFinding` (publish, dismiss) and `prismFinding.patch` (also apply patch);
+ * threads holding only human comments have none.
+ */
+export class ReviewCommentController implements vscode.Disposable {
+  private readonly controller = vscode.comments.createCommentController('prism', 'PRism Review');
+  private readonly threadsByPR = new Map<string, vscode.CommentThread[]>(); // keyed by PR web URL
+  private readonly findings = new Map<vscode.CommentThread, FindingThreads>();
+
+  /** Replace the PR's threads with one per finding, merging human comments made on the same line. */
+  show(
+    pr: PullRequest,
+    headSha: string,
+    findings: ReviewFinding[],
+    comments: ReviewComment[],
+    targets: ThreadTargets
+  ): void {
+    this.clear(pr);
+    const threads: vscode.CommentThread[] = [];
+    const commentsAt = new Map<string, ReviewComment[]>();
+    for (const comment of comments) {
+      const key = `${comment.filePath}:${comment.line}`;
+      commentsAt.set(key, [...(commentsAt.get(key) ?? []), comment]);
+    }
+
+    const uris = (filePath: string) =>
+      [targets.headUri(filePath), targets.localUri?.(filePath)].filter((uri): uri is vscode.Uri => !!uri);
+
+    for (const finding of findings) {
+      const { suggestion } = finding;
+      const key = `${finding.filePath}:${suggestion.line}`;
+      const human = commentsAt.get(key) ?? [];
+      commentsAt.delete(key);
+
+      const entry: FindingThreads = { pr, headSha, finding, threads: [] };
+      for (const uri of uris(finding.filePath)) {
+        const thread = this.controller.createCommentThread(uri, lineRange(suggestion.line, suggestion.endLine), [
+          findingComment(finding),
+          ...human.map(humanComment),
+        ]);
+        thread.label = `PRism: ${suggestion.severity}`;
+        thread.contextValue = suggestion.patch ? 'prismFinding.patch' : 'prismFinding';
+        thread.canReply = false;
+        thread.collapsibleState =
+          suggestion.severity === 'error'
+            ? vscode.CommentThreadCollapsibleState.Expanded
+            : vscode.CommentThreadCollapsibleState.Collapsed;
+        entry.threads.push(thread);
+        this.findings.set(thread, entry);
+      }
+      threads.push(...entry.threads);
+    }
+
+    // Human comments on lines without a finding get threads of their own
+    for (const lineComments of commentsAt.values()) {
+      const { filePath, line } = lineComments[0];
+      for (const uri of uris(filePath)) {
+        const thread = this.controller.createCommentThread(uri, lineRange(line), lineComments.map(humanComment));
+        thread.canReply = false;
+        thread.collapsibleState = vscode.CommentThreadCollapsibleState.Collapsed;
+        threads.push(thread);
+      }
+    }
+    this.threadsByPR.set(pr.url, threads);
+  }
+
+  /** The finding shown in `thread`, if it still has one. */
+  findingFor(thread: vscode.CommentThread): FindingThreads | undefined {
+    return this.findings.get(thread);
+  }
+
+  /** Remove the finding's threads, e.g. when it is dismissed. */
+  dismiss(entry: FindingThreads): void {
+    for (const thread of entry.threads) {
+      this.findings.delete(thread);
+      thread.dispose();
+    }
+    const remaining = (this.threadsByPR.get(entry.pr.url) ?? []).filter((t) => !entry.threads.includes(t));
+    this.threadsByPR.set(entry.pr.url, remaining);
+  }
+
+  /** Keep the finding's threads, without actions, to show it was posted. */
+  markPublished(entry: FindingThreads): void {
+    for (const thread of entry.threads) {
+      this.findings.delete(thread);
+      thread.contextValue = 'prismFinding.published';
+      thread.label = `PRism: ${entry.finding.suggestion.severity} · published`;
+    }
+  }
+
+  clear(pr: PullRequest): void {
+    for (const thread of this.threadsByPR.get(pr.url) ?? []) {
+      this.findings.delete(thread);
+      thread.dispose();
+    }
+    this.threadsByPR.delete(pr.url);
+  }
+
+  dispose(): void {
+    this.controller.dispose();
+    this.threadsByPR.clear();
+    this.findings.clear();
+  }
+}
+
+function lineRange(line: number, endLine = line): vscode.Range {
+  const start = Math.max(line - 1, 0);
+  return new vscode.Range(start, 0, Math.max(endLine - 1, start), 0);
+}
+
+function findingComment({ suggestion }: ReviewFinding): PRismComment {
+  const body = new vscode.MarkdownString(suggestion.message);
+  if (suggestion.patch) {
+    body.appendMarkdown('\n\n**Suggested patch:**\n');
+    body.appendCodeblock(suggestion.patch);
+  }
+  return new PRismComment(body, { name: 'PRism' }, 'finding', suggestion.category);
+}
+
+function humanComment(comment: ReviewComment): PRismComment {
+  const body = new vscode.MarkdownString(comment.body);
+  if (comment.url) {
+    body.appendMarkdown(`\n\n[View on the web](${comment.url})`);
+  }
+  return new PRismComment(body, { name: comment.author }, 'human', undefined, new Date(comment.createdAt));
+}
@@ -0,0 +1,163 @@
+import * as vscode from 'vscode';
+import { PullRequest, ReviewFinding, ReviewSuggestion } from '../types';
+import { watchHead } from '../adapters/gitRemote';
+import { findingLines } from '../core/findingLines';
+
+const SOURCE = 'PRism';
+
+const SEVERITIES: Record<ReviewSuggestion['severity'], vscode.DiagnosticSeverity> = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  info: vscode.DiagnosticSeverity.Information,
+};
+
+/** The review whose findings are in the Problems panel for one local checkout. */
+interface PublishedReview {
+  pr: PullRequest;
+  headSha: string;
+  findings: Map<string, ReviewSuggestion[]>; // keyed by file URI
+  headWatch?: vscode.Disposable;
+}
+
+/**
+ * Puts review findings in the Problems panel for a checkout of the reviewed
+ * head commit, and offers each patch as a quick fix. One review per checkout:
+ * the diagnostics go away when its HEAD moves off the reviewed commit, or when
+ * the review is discarded or replaced.
+ */
+export class ReviewDiagnostics implements vscode.CodeActionProvider, vscode.Disposable {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  private readonly collection = vscode.languages.createDiagnosticCollection('prism');
+  private readonly reviews = new Map<string, PublishedReview>(); // keyed by checkout root path
+
+  async show(pr: PullRequest, headSha: string, rootPath: string, findings: ReviewFinding[]): Promise<void> {
+    this.clearRoot(rootPath);
+    const review: PublishedReview = { pr, headSha, findings: new Map() };
+    const root = vscode.Uri.file(rootPath);
+    for (const { filePath, suggestion } of findings) {
+      const key = vscode.Uri.joinPath(root, filePath).toString();
+      review.findings.set(key, [...(review.findings.get(key) ?? []), suggestion]);
+    }
+    for (const [key, suggestions] of review.findings) {
+      this.collection.set(vscode.Uri.parse(key), suggestions.map(toDiagnostic));
+    }
+    this.reviews.set(rootPath, review);
+
+    const headWatch = await watchHead(rootPath, (commit) => {
+      if (commit !== headSha && this.reviews.get(rootPath) === review) {
+        this.clearRoot(rootPath);
+      }
+    });
+    if (this.reviews.get(rootPath) === review) {
+      review.headWatch = headWatch;
+    } else {
+      headWatch?.dispose(); // replaced or discarded while the watch was being set up
+    }
+  }
+
+  /** Remove the PR's diagnostics, e.g. when its review is discarded. */
+  clear(pr: PullRequest): void {
+    for (const [rootPath, review] of this.reviews) {
+      if (review.pr.url === pr.url) {
+        this.clearRoot(rootPath);
+      }
+    }
+  }
+
+  /** Remove one dismissed finding. */
+  dismiss(pr: PullRequest, { filePath, suggestion }: ReviewFinding): void {
+    for (const [rootPath, review] of this.reviews) {
+      if (review.pr.url !== pr.url) {
+        continue;
+      }
+      const uri = vscode.Uri.joinPath(vscode.Uri.file(rootPath), filePath);
+      const remaining = (review.findings.get(uri.toString()) ?? []).filter((s) => s !== suggestion);
+      review.findings.set(uri.toString(), remaining);
+      this.collection.set(uri, remaining.map(toDiagnostic));
+    }
+  }
+
+  provideCodeActions(
+    document: vscode.TextDocument,
+    _range: vscode.Range,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const suggestions = this.findingsFor(document.uri);
+    const actions: vscode.CodeAction[] = [];
+    for (const diagnostic of context.diagnostics.filter((d) => d.source === SOURCE)) {
+      // Diagnostics come back as copies, so match them to findings by line and message
+      const suggestion = suggestions.find(
+        (s) =>
+          s.patch !== undefined &&
+          findingLines(s).start === diagnostic.range.start.line &&
+          s.message === diagnostic.message
+      );
+      if (!suggestion?.patch) {
+        continue;
+      }
+      const { start, end } = findingLines(suggestion);
+      if (end >= document.lineCount) {
+        continue;
+      }
+      const edit = new vscode.WorkspaceEdit();
+      edit.replace(
+        document.uri,
+        new vscode.Range(start, 0, end, document.lineAt(end).text.length),
+        suggestion.patch.replace(/\n$/, '')
+      );
+      const action = new vscode.CodeAction('Apply PRism patch', vscode.CodeActionKind.QuickFix);
+      action.edit = edit;
+      action.diagnostics = [diagnostic];
+      action.isPreferred = true;
+      actions.push(action);
+    }
+    return actions;
+  }
+
+  dispose(): void {
+    for (const review of this.reviews.values()) {
+      review.headWatch?.dispose();
+    }
+    this.reviews.clear();
+    this.collection.dispose();
+  }
+
+  private findingsFor(uri: vscode.Uri): ReviewSuggestion[] {
+    const key = uri.toString();
+    for (const review of this.reviews.values()) {
+      const suggestions = review.findings.get(key);
+      if (suggestions) {
+        return suggestions;
+      }
+    }
+    return [];
+  }
+
+  private clearRoot(rootPath: string): void {
+    const review = this.reviews.get(rootPath);
+    if (!review) {
+      return;
+    }
+    review.headWatch?.dispose();
+    for (const key of review.findings.keys()) {
+      this.collection.delete(vscode.Uri.parse(key));
+    }
+    this.reviews.delete(rootPath);
+  }
+}
+
+function toDiagnostic(suggestion: ReviewSuggestion): vscode.Diagnostic {
+  const { start, end } = findingLines(suggestion);
+  // The editor clamps the end column to the line's length
+  const diagnostic = new vscode.Diagnostic(
+    new vscode.Range(start, 0, end, Number.MAX_SAFE_INTEGER),
+    suggestion.message,
+    SEVERITIES[suggestion.severity]
+  );
+  diagnostic.source = SOURCE;
+  if (suggestion.category) {
+    diagnostic.code = suggestion.category;
+  }
+  return diagnostic;
+}
@@ -1,5 +1,45 @@
 import * as vscode from 'vscode';
-import { ReviewResult, RiskReport, PullRequest, InDepthAnalysis, MergeStatus } from '../types';
+import {
+  ReviewResult,
+  RiskReport,
+  PullRequest,
+  ReviewTarget,
+  InDepthAnalysis,
+  MergeStatus,
+  ReviewEvent,
+  ReviewFinding,
+  BranchUpdateMethod,
+} from '../types';
+
+/** The command that reviews each kind of target again. */
+const REVIEW_COMMANDS: Record<ReviewTarget['kind'], string> = {
+  pullRequest: 'prism.reviewPR',
+  pullRequestFile: 'prism.reviewFile',
+  workingTree: 'prism.reviewWorkingTree',
+  staged: 'prism.reviewStaged',
+  range: 'prism.reviewRange',
+};
+
+/** Short name of a target, for titles. */
+export function describeTarget(target: ReviewTarget): string {
+  switch (target.kind) {
+    case 'pullRequest':
+      return `PR #${target.pr.number}`;
+    case 'pullRequestFile':
+      return `PR #${target.prNumber} · ${target.filePath}`;
+    case 'workingTree':
+      return 'Uncommitted Changes';
+    case 'staged':
+      return 'Staged Changes';
+    case 'range':
+      return `${target.base}..${target.head}`;
+  }
+}
+
+/** PR commands take the PR itself; the others take the target. */
+function commandArg(target: ReviewTarget): unknown {
+  return target.kind === 'pullRequest' ? target.pr : target;
+}
 
 export class ReviewResultsPanel {
   public static currentPanel: ReviewResultsPanel | undefined;
@@ -34,42 +74,52 @@ export class ReviewResultsPanel {
     this._update();
     this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
     this._panel.webview.onDidReceiveMessage(
-      (message: { command: string; data?: { pr?: PullRequest } }) => {
+      (message: {
+        command: string;
+        data?: {
+          pr?: PullRequest;
+          target?: ReviewTarget; // sent by the header's actions
+          findings?: ReviewFinding[];
+          event?: ReviewEvent;
+          method?: BranchUpdateMethod;
+          filePath?: string;
+        };
+      }) => {
         switch (message.command) {
           case 'refresh':
             this._update();
             break;
           case 'runReview':
-            if (message.data?.pr) {
-              vscode.commands.executeCommand('prism.reviewPR', message.data.pr);
+            if (message.data?.target) {
+              vscode.commands.executeCommand(REVIEW_COMMANDS[message.data.target.kind], commandArg(message.data.target));
             }
             break;
           case 'runDeepAnalysis':
-            if (message.data?.pr) {
-              vscode.commands.executeCommand('prism.deepAnalysis', message.data.pr);
+            if (message.data?.target) {
+              vscode.commands.executeCommand('prism.deepAnalysis', commandArg(message.data.target));
             }
             break;
           case 'runMultiModel':
-            if (message.data?.pr) {
-              vscode.commands.executeCommand('prism.multiModelReview', message.data.pr);
+            if (message.data?.target) {
+              vscode.commands.executeCommand('prism.multiModelReview', commandArg(message.data.target));
             }
             break;
           case 'runSummary':
-            if (message.data?.pr) {
-              vscode.commands.executeCommand('prism.generateSummary', message.data.pr);
+            if (message.data?.target) {
+              vscode.commands.executeCommand('prism.generateSummary', commandArg(message.data.target));
             }
             break;
           case 'runRiskAnalysis':
-            if (message.data?.pr) {
-              vscode.commands.executeCommand('prism.showRiskAnalysis', message.data.pr);
+            if (message.data?.target) {
+              vscode.commands.executeCommand('prism.showRiskAnalysis', commandArg(message.data.target));
             }
             break;
           case 'selectModel':
             vscode.commands.executeCommand('prism.selectModel');
             break;
           case 'checkMergeStatus':
-            if (message.data?.pr) {
-              vscode.commands.executeCommand('prism.checkMergeStatus', message.data.pr);
+            if (message.data?.target?.kind === 'pullRequest') {
+              vscode.commands.executeCommand('prism.checkMergeStatus', message.data.target.pr);
             }
             break;
           case 'mergePR':
@@ -77,6 +127,41 @@ export class ReviewResultsPanel {
               vscode.commands.executeCommand('prism.mergePR', message.data.pr);
             }
             break;
+          case 'enableAutoMerge':
+            if (message.data?.pr) {
+              vscode.commands.executeCommand('prism.enableAutoMerge', message.data.pr);
+            }
+            break;
+          case 'cancelAutoMerge':
+            if (message.data?.pr) {
+              vscode.commands.executeCommand('prism.cancelAutoMerge', message.data.pr);
+            }
+            break;
+          case 'revertPR':
+            if (message.data?.pr) {
+              vscode.commands.executeCommand('prism.revertPR', message.data.pr);
+            }
+            break;
+          case 'updateBranch':
+            if (message.data?.pr) {
+              vscode.commands.executeCommand('prism.updateBranch', message.data.pr, message.data.method);
+            }
+            break;
+          case 'resolveConflict':
+            if (message.data?.pr) {
+              vscode.commands.executeCommand('prism.resolveConflict', message.data.pr, message.data.filePath);
+            }
+            break;
+          case 'publishReview':
+            if (message.data?.pr) {
+              vscode.commands.executeCommand(
+                'prism.publishReview',
+                message.data.pr,
+                message.data.findings,
+                message.data.event
+              );
+            }
+            break;
         }
       },
       null,
@@ -84,31 +169,42 @@ export class ReviewResultsPanel {
     );
   }
 
-  public updateResults(pr: PullRequest, results: ReviewResult[], riskReports: RiskReport[]): void {
-    this._panel.title = `PRism: PR #${pr.number}`;
+  public updateResults(
+    target: ReviewTarget,
+    results: ReviewResult[],
+    riskReports: RiskReport[],
+    warnings: string[] = []
+  ): void {
+    this._panel.title = `PRism: ${describeTarget(target)}`;
     this._panel.webview.postMessage({
       command: 'updateResults',
-      data: { pr, results, riskReports },
+      data: { target, results, riskReports, warnings },
     });
   }
 
-  public updateDeepAnalysis(pr: PullRequest, analysis: InDepthAnalysis, riskReports: RiskReport[]): void {
-    this._panel.title = `PRism: Deep Analysis PR #${pr.number}`;
+  public updateDeepAnalysis(
+    target: ReviewTarget,
+    analysis: InDepthAnalysis,
+    riskReports: RiskReport[],
+    warnings: string[] = []
+  ): void {
+    this._panel.title = `PRism: Deep Analysis ${describeTarget(target)}`;
     this._panel.webview.postMessage({
       command: 'updateDeepAnalysis',
-      data: { pr, analysis, riskReports },
+      data: { target, analysis, riskReports, warnings },
     });
   }
 
   public updateMultiModelResults(
-    pr: PullRequest,
+    target: ReviewTarget,
     modelResults: { modelName: string; results: ReviewResult[] }[],
-    riskReports: RiskReport[]
+    riskReports: RiskReport[],
+    warnings: string[] = []
   ): void {
-    this._panel.title = `PRism: Multi-Model PR #${pr.number}`;
+    this._panel.title = `PRism: Multi-Model ${describeTarget(target)}`;
     this._panel.webview.postMessage({
       command: 'updateMultiModelResults',
-      data: { pr, modelResults, riskReports },
+      data: { target, modelResults, riskReports, warnings },
     });
   }
 
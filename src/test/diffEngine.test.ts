@@ -0,0 +1,168 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { DiffEngine, diffPosition, hunkRanges, splitUnifiedDiff } from '../core/diffEngine';
+import { DiffChunk } from '../types';
+
+const diff = (...lines: string[]) => lines.join('\n') + '\n';
+
+/** Each line as [kind, oldLine, newLine, position], the parts comments are anchored by. */
+const anchors = (chunk: DiffChunk) => chunk.lines.map((l) => [l.kind, l.oldLine, l.newLine, l.position]);
+
+const MULTI_HUNK = diff(
+  'diff --git a/src/app.ts b/src/app.ts',
+  'index 1111111..2222222 100644',
+  '--- a/src/app.ts',
+  '+++ b/src/app.ts',
+  '@@ -1,3 +1,3 @@',
+  ' import a;',
+  '-old();',
+  '+next();',
+  ' keep();',
+  '@@ -10,2 +10,3 @@ function tail() {',
+  ' one();',
+  '+two();',
+  ' three();'
+);
+
+const DELETED_ONLY = diff(
+  'diff --git a/gone.txt b/gone.txt',
+  'deleted file mode 100644',
+  '--- a/gone.txt',
+  '+++ /dev/null',
+  '@@ -1,2 +0,0 @@',
+  '-a',
+  '-b'
+);
+
+const ADDED_ONLY = diff(
+  'diff --git a/new.ts b/new.ts',
+  'new file mode 100644',
+  '--- /dev/null',
+  '+++ b/new.ts',
+  '@@ -0,0 +1,2 @@',
+  '+x',
+  '+y'
+);
+
+const NO_NEWLINE_AT_EOF = diff(
+  'diff --git a/end.txt b/end.txt',
+  '--- a/end.txt',
+  '+++ b/end.txt',
+  '@@ -1 +1 @@',
+  '-last',
+  '\\ No newline at end of file',
+  '+last;',
+  '\\ No newline at end of file'
+);
+
+test('numbers the lines of every hunk and counts later headers as positions', () => {
+  const chunks = new DiffEngine().parse(MULTI_HUNK);
+
+  assert.deepEqual(
+    chunks.map((c) => [c.type, c.oldStartLine, c.oldLineCount, c.startLine, c.endLine, c.newLineCount]),
+    [
+      ['modification', 1, 3, 1, 3, 3],
+      ['addition', 10, 2, 10, 12, 3],
+    ]
+  );
+  assert.deepEqual(anchors(chunks[0]), [
+    ['context', 1, 1, 1],
+    ['deletion', 2, undefined, 2],
+    ['addition', undefined, 2, 3],
+    ['context', 3, 3, 4],
+  ]);
+  assert.deepEqual(anchors(chunks[1]), [
+    ['context', 10, 10, 6],
+    ['addition', undefined, 11, 7],
+    ['context', 11, 12, 8],
+  ]);
+
+  const [file] = splitUnifiedDiff(MULTI_HUNK);
+  assert.deepEqual(hunkRanges(file.text), [
+    { start: 1, end: 3 },
+    { start: 10, end: 12 },
+  ]);
+  assert.equal(diffPosition(file.text, 11), 7);
+  assert.equal(diffPosition(file.text, 5), undefined);
+});
+
+test('parses a hunk that only deletes lines', () => {
+  const [chunk] = new DiffEngine().parse(DELETED_ONLY);
+
+  assert.equal(chunk.filePath, 'gone.txt');
+  assert.equal(chunk.type, 'deletion');
+  assert.deepEqual([chunk.startLine, chunk.endLine, chunk.newLineCount], [0, 0, 0]);
+  assert.deepEqual(anchors(chunk), [
+    ['deletion', 1, undefined, 1],
+    ['deletion', 2, undefined, 2],
+  ]);
+
+  // Nothing on the new side can carry a comment
+  const [file] = splitUnifiedDiff(DELETED_ONLY);
+  assert.deepEqual(hunkRanges(file.text), []);
+  assert.equal(diffPosition(file.text, 0), undefined);
+});
+
+test('parses a hunk that only adds lines', () => {
+  const [chunk] = new DiffEngine().parse(ADDED_ONLY);
+
+  assert.equal(chunk.filePath, 'new.ts');
+  assert.equal(chunk.type, 'addition');
+  assert.deepEqual([chunk.oldStartLine, chunk.oldLineCount, chunk.startLine, chunk.endLine], [0, 0, 1, 2]);
+  assert.deepEqual(anchors(chunk), [
+    ['addition', undefined, 1, 1],
+    ['addition', undefined, 2, 2],
+  ]);
+});
+
+test('skips "no newline at end of file" markers but counts them as positions', () => {
+  const chunks = new DiffEngine().parse(NO_NEWLINE_AT_EOF + ADDED_ONLY);
+
+  // The trailing marker stays with its file instead of swallowing the next one
+  assert.deepEqual(
+    chunks.map((c) => c.filePath),
+    ['end.txt', 'new.ts']
+  );
+  assert.deepEqual(anchors(chunks[0]), [
+    ['deletion', 1, undefined, 1],
+    ['addition', undefined, 1, 3],
+  ]);
+  assert.deepEqual(
+    chunks[0].lines.map((l) => l.text),
+    ['last', 'last;']
+  );
+  assert.match(chunks[0].content, /^\\ No newline at end of file$/m);
+
+  const [file] = splitUnifiedDiff(NO_NEWLINE_AT_EOF);
+  assert.equal(diffPosition(file.text, 1), 3);
+});
+
+test('keeps lines that contain "diff --git" inside their file', () => {
+  const text = diff(
+    'diff --git a/docs/git.md b/docs/git.md',
+    '--- a/docs/git.md',
+    '+++ b/docs/git.md',
+    '@@ -1,3 +1,3 @@',
+    ' # Diffs',
+    '-old',
+    '+Each file starts with diff --git a/<path> b/<path>',
+    // A context line whose leading space was trimmed
+    'diff --git a/fake.txt b/fake.txt'
+  );
+
+  const files = splitUnifiedDiff(text);
+  assert.deepEqual(
+    files.map((f) => f.filePath),
+    ['docs/git.md']
+  );
+  assert.match(files[0].text, /^\+Each file starts with diff --git a\/<path> b\/<path>$/m);
+  assert.match(files[0].text, /^diff --git a\/fake\.txt b\/fake\.txt$/m);
+
+  const [chunk] = new DiffEngine().parse(text);
+  assert.deepEqual(anchors(chunk), [
+    ['context', 1, 1, 1],
+    ['deletion', 2, undefined, 2],
+    ['addition', undefined, 2, 3],
+    ['context', 3, 3, 4],
+  ]);
+});
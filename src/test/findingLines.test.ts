@@ -0,0 +1,17 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { findingLines } from '../core/findingLines';
+
+test('converts a finding to zero-based editor lines', () => {
+  assert.deepEqual(findingLines({ line: 3 }), { start: 2, end: 2 });
+  assert.deepEqual(findingLines({ line: 3, endLine: 5 }), { start: 2, end: 4 });
+});
+
+test('clamps a finding on line 0 to the first line', () => {
+  assert.deepEqual(findingLines({ line: 0 }), { start: 0, end: 0 });
+  assert.deepEqual(findingLines({ line: 0, endLine: 2 }), { start: 0, end: 1 });
+});
+
+test('never ends a finding before it starts', () => {
+  assert.deepEqual(findingLines({ line: 5, endLine: 2 }), { start: 4, end: 4 });
+});
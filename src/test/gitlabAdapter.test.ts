@@ -0,0 +1,262 @@
+import { test, before, after } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { GitLabAdapter } from '../adapters/gitlabAdapter';
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  token: string | undefined;
+  body: unknown;
+}
+
+type Route = (request: RecordedRequest) => { status?: number; body?: unknown; headers?: Record<string, string> };
+
+const PROJECT = '/api/v4/projects/group%2Fapp';
+const DIFF_REFS = { base_sha: 'base111', start_sha: 'start222', head_sha: 'head333' };
+
+const mergeRequest = (iid: number, extra: Record<string, unknown> = {}) => ({
+  iid,
+  title: `MR ${iid}`,
+  web_url: `https://gitlab.test/group/app/-/merge_requests/${iid}`,
+  author: { username: 'alice' },
+  source_branch: `feature-${iid}`,
+  target_branch: 'main',
+  changes_count: '2',
+  created_at: '2024-05-01T10:00:00Z',
+  updated_at: '2024-05-02T10:00:00Z',
+  state: 'opened',
+  sha: 'head333',
+  diff_refs: DIFF_REFS,
+  draft: iid === 2,
+  labels: ['backend'],
+  reviewers: [{ username: 'bob' }],
+  assignees: [],
+  ...extra,
+});
+
+const routes = new Map<string, Route>([
+  [
+    `GET ${PROJECT}/merge_requests`,
+    ({ query }) =>
+      query.get('page') === '1'
+        ? { body: [mergeRequest(1)], headers: { 'x-next-page': '2' } }
+        : { body: [mergeRequest(2)], headers: { 'x-next-page': '' } },
+  ],
+  [`GET ${PROJECT}/merge_requests/7`, () => ({ body: mergeRequest(7) })],
+  [
+    `GET ${PROJECT}/merge_requests/7/diffs`,
+    () => ({
+      body: [
+        {
+          old_path: 'src/app.ts',
+          new_path: 'src/app.ts',
+          diff: '@@ -1,3 +1,3 @@\n import a;\n-old();\n+next();\n keep();\n',
+          new_file: false,
+          renamed_file: false,
+          deleted_file: false,
+        },
+        {
+          old_path: 'docs/old.md',
+          new_path: 'docs/new.md',
+          diff: '@@ -1 +1,2 @@\n title\n+more\n',
+          new_file: false,
+          renamed_file: true,
+          deleted_file: false,
+        },
+        {
+          old_path: 'gone.txt',
+          new_path: 'gone.txt',
+          diff: '@@ -1,2 +0,0 @@\n-a\n-b\n',
+          new_file: false,
+          renamed_file: false,
+          deleted_file: true,
+        },
+      ],
+    }),
+  ],
+  [`POST ${PROJECT}/merge_requests/7/discussions`, () => ({ status: 201, body: { id: 'd1' } })],
+  [
+    `POST ${PROJECT}/merge_requests/7/draft_notes`,
+    ({ body }) =>
+      (body as { position: { new_line: number } }).position.new_line === 99
+        ? { status: 400, body: { message: { base: ['line_code can not be blank'] } } }
+        : { status: 201, body: { id: 1 } },
+  ],
+  [`DELETE ${PROJECT}/merge_requests/7/draft_notes/1`, () => ({ status: 204 })],
+  [`POST ${PROJECT}/merge_requests/7/draft_notes/bulk_publish`, () => ({ status: 204 })],
+  [`POST ${PROJECT}/merge_requests/7/notes`, () => ({ status: 201, body: { id: 2 } })],
+]);
+
+const requests: RecordedRequest[] = [];
+let server: http.Server;
+let adapter: GitLabAdapter;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => {
+      // Keep the encoded project path: GitLab addresses projects by their URL-encoded full path
+      const [path, search = ''] = (req.url ?? '').split('?');
+      const text = Buffer.concat(chunks).toString('utf8');
+      const recorded: RecordedRequest = {
+        method: req.method ?? 'GET',
+        path,
+        query: new URLSearchParams(search),
+        token: req.headers['private-token'] as string | undefined,
+        body: text ? JSON.parse(text) : undefined,
+      };
+      requests.push(recorded);
+
+      const route = routes.get(`${recorded.method} ${path}`);
+      if (!route) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ message: '404 Not Found' }));
+        return;
+      }
+      const { status = 200, body, headers = {} } = route(recorded);
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+      res.end(body === undefined ? undefined : JSON.stringify(body));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+  const { port } = server.address() as AddressInfo;
+  adapter = new GitLabAdapter({ baseUrl: `http://127.0.0.1:${port}/`, getToken: async () => 'glpat-test' });
+  await adapter.setRepository({
+    provider: 'gitlab',
+    host: '127.0.0.1',
+    owner: 'group',
+    repo: 'app',
+    remoteName: 'origin',
+    rootPath: '/tmp/app',
+  });
+});
+
+after(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+test('lists open merge requests across pages', async () => {
+  requests.length = 0;
+  const prs = await adapter.listOpenPRs();
+
+  assert.deepEqual(
+    prs.map((pr) => [pr.number, pr.headBranch, pr.baseBranch, pr.draft]),
+    [
+      [1, 'feature-1', 'main', false],
+      [2, 'feature-2', 'main', true],
+    ]
+  );
+  assert.deepEqual(prs[0].requestedReviewers, ['bob']);
+  assert.equal(prs[0].changedFilesCount, 2);
+  assert.deepEqual(
+    requests.map((r) => [r.query.get('state'), r.query.get('page'), r.query.get('per_page')]),
+    [
+      ['opened', '1', '100'],
+      ['opened', '2', '100'],
+    ]
+  );
+  assert.ok(requests.every((r) => r.token === 'glpat-test'));
+});
+
+test('re-heads MR diffs as git diffs, split per file', async () => {
+  const changed = await adapter.getChangedFiles(7);
+  assert.deepEqual(changed.files, [
+    { filePath: 'src/app.ts', status: 'modified', additions: 1, deletions: 1, previousPath: undefined },
+    { filePath: 'docs/new.md', status: 'renamed', additions: 1, deletions: 0, previousPath: 'docs/old.md' },
+    { filePath: 'gone.txt', status: 'deleted', additions: 0, deletions: 2, previousPath: undefined },
+  ]);
+  assert.equal(changed.truncated, false);
+
+  const snapshot = await adapter.getDiffSnapshot(7);
+  assert.equal(snapshot.headSha, 'head333');
+  assert.equal(snapshot.mergeBaseSha, 'base111');
+  assert.equal(
+    snapshot.files.get('src/app.ts'),
+    'diff --git a/src/app.ts b/src/app.ts\n--- a/src/app.ts\n+++ b/src/app.ts\n' +
+      '@@ -1,3 +1,3 @@\n import a;\n-old();\n+next();\n keep();\n'
+  );
+  assert.match(snapshot.files.get('docs/new.md') ?? '', /^rename from docs\/old\.md\nrename to docs\/new\.md$/m);
+  assert.match(snapshot.files.get('gone.txt') ?? '', /^deleted file mode 100644\n--- a\/gone\.txt\n\+\+\+ \/dev\/null$/m);
+});
+
+test('posts a line comment as a positioned discussion', async () => {
+  requests.length = 0;
+  await adapter.submitReviewComment(7, 'src/app.ts', 'Rename this', 2);
+
+  const post = requests.find((r) => r.method === 'POST');
+  assert.equal(post?.path, `${PROJECT}/merge_requests/7/discussions`);
+  assert.deepEqual(post?.body, {
+    body: 'Rename this',
+    position: {
+      position_type: 'text',
+      ...DIFF_REFS,
+      old_path: 'src/app.ts',
+      new_path: 'src/app.ts',
+      new_line: 2,
+    },
+  });
+});
+
+test('positions a comment on a renamed file by its old and new paths', async () => {
+  requests.length = 0;
+  await adapter.submitReviewComment(7, 'docs/new.md', 'Typo', 2);
+
+  const post = requests.find((r) => r.method === 'POST')?.body as { position: { old_path: string; new_path: string } };
+  assert.deepEqual([post.position.old_path, post.position.new_path], ['docs/old.md', 'docs/new.md']);
+});
+
+test('publishes a batched review as draft notes', async () => {
+  requests.length = 0;
+  const url = await adapter.submitReview(7, {
+    event: 'COMMENT',
+    body: 'Summary',
+    commitSha: 'head333',
+    comments: [{ filePath: 'src/app.ts', startLine: 1, line: 2, body: 'Simplify', suggestion: 'next();' }],
+  });
+
+  assert.equal(url, 'https://gitlab.test/group/app/-/merge_requests/7');
+  assert.deepEqual(
+    requests.filter((r) => r.method === 'POST').map((r) => r.path.slice(`${PROJECT}/merge_requests/7`.length)),
+    ['/draft_notes', '/draft_notes/bulk_publish', '/notes']
+  );
+  const draft = requests.find((r) => r.path.endsWith('/draft_notes'))?.body as { note: string; position: { new_line: number } };
+  assert.equal(draft.note, 'Simplify\n\n```suggestion:-1+0\nnext();\n```');
+  assert.equal(draft.position.new_line, 2);
+});
+
+test('deletes the drafts it created when a later draft is rejected', async () => {
+  requests.length = 0;
+  await assert.rejects(
+    adapter.submitReview(7, {
+      event: 'COMMENT',
+      body: 'Summary',
+      commitSha: 'head333',
+      comments: [
+        { filePath: 'src/app.ts', line: 2, body: 'Fine' },
+        { filePath: 'src/app.ts', line: 99, body: 'Outside the diff' },
+      ],
+    }),
+    /draft_notes failed \(400\)/
+  );
+
+  assert.deepEqual(
+    requests.filter((r) => r.method !== 'GET').map((r) => `${r.method} ${r.path.slice(`${PROJECT}/merge_requests/7`.length)}`),
+    ['POST /draft_notes', 'POST /draft_notes', 'DELETE /draft_notes/1']
+  );
+});
+
+test('rejects a review of an outdated head', async () => {
+  await assert.rejects(
+    adapter.submitReview(7, { event: 'COMMENT', body: 'Summary', commitSha: 'stale', comments: [] }),
+    /has new commits since it was reviewed/
+  );
+});
+
+test('reports API errors with their status', async () => {
+  await assert.rejects(adapter.getChangedFiles(404), /GitLab API GET .*merge_requests\/404\/diffs.* failed \(404\)/);
+});
@@ -9,6 +9,75 @@ export interface PullRequest {
   baseBranch: string;
   changedFilesCount: number;
   createdAt: string;
+  repository?: RepositoryRef; // set when the PR was listed under a specific repository
+  autoMerge?: AutoMerge; // set while a merge is queued for when requirements are met
+  body?: string; // PR description, as written by the author
+  fromFork?: boolean; // the head branch lives in another repository
+  // Listing metadata, set for PRs loaded from the provider
+  draft?: boolean;
+  labels?: string[];
+  requestedReviewers?: string[]; // users and teams ("org/team", GitHub only) still asked to review
+  assignees?: string[];
+  mergeableState?: MergeStatus['mergeableState'];
+  updatedAt?: string;
+}
+
+export type PRSortOrder = 'newest' | 'oldest' | 'recentlyUpdated' | 'leastRecentlyUpdated';
+
+/** Which PRs the sidebar shows, and in what order. Persisted per workspace. */
+export interface PRFilter {
+  reviewRequested: boolean; // only PRs that ask the signed-in user for a review
+  mine: boolean; // only PRs authored by the signed-in user
+  hideDrafts: boolean;
+  label?: string;
+  author?: string;
+  sort: PRSortOrder;
+}
+
+/** The fork a PR's head branch lives in. */
+export interface HeadFork {
+  owner: string;
+  cloneUrl: string;
+}
+
+/** A hosted repository reached through one remote of a local checkout. */
+export interface RepositoryRef {
+  provider: ScmProvider;
+  host: string;
+  owner: string;
+  repo: string;
+  remoteName: string;
+  rootPath: string;
+}
+
+/** One commit on a PR branch. */
+export interface PullRequestCommit {
+  sha: string;
+  message: string;
+  authorName: string;
+  authorEmail: string;
+  authorLogin?: string; // hosting account, when the provider could match the email to one
+}
+
+/** What `createPR` needs to open a pull request. */
+export interface NewPullRequest {
+  title: string;
+  body: string;
+  headBranch: string;
+  baseBranch: string;
+  draft?: boolean;
+}
+
+/** An issue the PR closes when merged. */
+export interface LinkedIssue {
+  number: number;
+  title: string;
+}
+
+/** One page of open PRs, as loaded lazily by the sidebar tree. */
+export interface PullRequestPage {
+  pullRequests: PullRequest[];
+  hasMore: boolean;
 }
 
 export interface ChangedFile {
@@ -16,13 +85,55 @@ export interface ChangedFile {
   status: 'added' | 'modified' | 'deleted' | 'renamed';
   additions: number;
   deletions: number;
+  previousPath?: string; // path in the base branch, for renamed files
+}
+
+export interface ChangedFileList {
+  files: ChangedFile[];
+  truncated: boolean; // true when the PR has more files than prism.maxChangedFiles
+}
+
+/** The whole PR diff fetched once for a given head commit, split per file. */
+export interface DiffSnapshot {
+  prNumber: number;
+  headSha: string;
+  baseSha: string;
+  mergeBaseSha: string; // the commit the diff is taken against
+  files: Map<string, string>; // filePath → that file's unified diff
+  partial?: boolean; // true when the provider would not serve the whole diff and files may be missing
+}
+
+/** One file's section of a multi-file unified diff. */
+export interface FileDiff {
+  oldPath: string;
+  newPath: string;
+  filePath: string;
+  text: string;
+}
+
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/** One line of a hunk body, with where it sits on each side of the diff. */
+export interface DiffLine {
+  kind: 'context' | 'addition' | 'deletion';
+  text: string; // without the leading ' ', '+' or '-'
+  oldLine?: number; // absent for additions
+  newLine?: number; // absent for deletions
+  position: number; // GitHub diff position: lines below the file's first @@ header
 }
 
 export interface DiffChunk {
   filePath: string;
   type: 'addition' | 'deletion' | 'modification';
-  startLine: number;
-  endLine: number;
+  startLine: number; // new-file range of the hunk, from its @@ header
+  endLine: number; // equals startLine when the hunk only removes lines
+  oldStartLine: number; // base-side range of the hunk
+  oldLineCount: number;
+  newLineCount: number;
+  lines: DiffLine[];
   content: string;
   metadata: {
     containsFunction: boolean;
@@ -40,6 +151,33 @@ export interface RiskReport {
   reasons: string[];
 }
 
+/** Uncommitted changes in a local checkout, reviewed before any PR exists. */
+export interface LocalChanges {
+  kind: 'workingTree' | 'staged'; // everything uncommitted, or only what is staged
+  rootPath: string;
+  branch: string; // 'HEAD' when detached
+  changedFilesCount: number;
+}
+
+/**
+ * The commits of `base..head` in a local checkout, reviewed like a PR: as the
+ * diff from their merge base to `head`.
+ */
+export interface CommitRange {
+  kind: 'range';
+  rootPath: string;
+  base: string;
+  head: string;
+  changedFilesCount: number;
+}
+
+/** What a review or analysis covers; the results panel's header shows it and offers the actions it supports. */
+export type ReviewTarget =
+  | { kind: 'pullRequest'; pr: PullRequest }
+  | { kind: 'pullRequestFile'; prNumber: number; filePath: string }
+  | LocalChanges
+  | CommitRange;
+
 export interface ReviewResult {
   chunkId: string;
   filePath: string;
@@ -52,9 +190,10 @@ export interface ReviewResult {
 
 export interface ReviewSuggestion {
   line: number;
+  endLine?: number; // last line `patch` replaces; defaults to `line`
   severity: 'info' | 'warning' | 'error';
   message: string;
-  patch?: string;
+  patch?: string; // replacement code for lines `line`–`endLine`
   category?: string;
 }
 
@@ -81,7 +220,7 @@ export type ModelVendor = 'copilot';
 // ──────────────────────────── In-Depth Analysis ────────────────────────────
 
 export interface InDepthAnalysis {
-  prNumber: number;
+  prNumber?: number; // unset for local changes and commit ranges
   overallSummary: string;
   complexityScore: number; // 0-100
   qualityGrade: 'A' | 'B' | 'C' | 'D' | 'F';
@@ -141,26 +280,103 @@ export interface ConflictingOpinion {
   opinions: { model: string; view: string }[];
 }
 
+// ──────────────────────────── Publishing Types ────────────────────────────
+
+export type ReviewEvent = 'COMMENT' | 'REQUEST_CHANGES' | 'APPROVE';
+
+/** A review suggestion together with the file it was raised against. */
+export interface ReviewFinding {
+  filePath: string;
+  suggestion: ReviewSuggestion;
+}
+
+export interface ReviewCommentDraft {
+  filePath: string;
+  startLine?: number; // first line of a multi-line comment, in the same hunk as `line`
+  line: number; // new-side line inside one of the file's diff hunks
+  body: string;
+  suggestion?: string; // replacement for lines `startLine`–`line`, rendered as a suggested change
+}
+
+/** A line comment someone left on the PR, on the new side of the diff. */
+export interface ReviewComment {
+  filePath: string;
+  line: number;
+  author: string;
+  body: string;
+  createdAt: string;
+  url?: string;
+}
+
+/** One batched review: a summary body plus line comments, posted in a single call. */
+export interface ReviewSubmission {
+  event: ReviewEvent;
+  body: string;
+  commitSha: string; // head commit the comment lines were checked against
+  comments: ReviewCommentDraft[];
+}
+
 // ──────────────────────────── Merge Types ────────────────────────────
 
 export type MergeMethod = 'merge' | 'squash' | 'rebase';
 
+/** How a PR branch that is behind its base is brought up to date. */
+export type BranchUpdateMethod = 'merge' | 'rebase';
+
+/** A merge queued to happen once the PR's requirements are met. */
+export interface AutoMerge {
+  method: MergeMethod;
+  enabledBy?: string;
+  source: 'provider' | 'local'; // 'local' is PRism's own watcher, running while the window is open
+}
+
 export interface MergeStatus {
+  headSha: string;
   mergeable: boolean;
   mergeableState: 'clean' | 'dirty' | 'unstable' | 'blocked' | 'unknown';
   merged: boolean;
   mergedBy?: string;
   mergedAt?: string;
+  mergeCommitSha?: string; // merge or squash commit on the base branch; the last rebased commit for rebase merges
   behindBy: number;
   aheadBy: number;
   allowedMethods: MergeMethod[];
   statusChecks: StatusCheck[];
+  requirements: MergeRequirements;
+  blockingReasons: string[]; // human-readable, empty when nothing is known to block the merge
+  warnings: string[]; // human-readable, worth knowing before merging but not blocking it
+  conflicts?: ConflictFile[]; // computed locally when mergeableState is 'dirty'
+  autoMergeAllowed: boolean; // the provider can queue the merge itself
+  autoMerge?: AutoMerge;
+  postMerge?: PostMergeStep[]; // housekeeping run right after PRism merged the PR
+}
+
+/** Branch protection, rulesets and review state that gate a merge. */
+export interface MergeRequirements {
+  requiredApprovals: number;
+  approvals: number;
+  approvedBy: string[];
+  changesRequestedBy: string[];
+  reviewRequired: boolean; // the provider still reports the review requirement as unmet
+  codeOwnerReviewRequired: boolean;
+  requiredChecks: string[];
+  requiresUpToDate: boolean; // head must include the latest base commit
+  canBypass: boolean; // viewer may merge despite unmet requirements
 }
 
 export interface StatusCheck {
   name: string;
   status: 'success' | 'failure' | 'pending' | 'neutral';
   description?: string;
+  conclusion?: string; // provider's raw outcome, e.g. `skipped`, `timed_out`, `cancelled`
+  durationMs?: number;
+  detailsUrl?: string;
+}
+
+/** A commit message split the way the merge APIs take it. */
+export interface CommitMessage {
+  title: string;
+  body: string;
 }
 
 export interface MergeResult {
@@ -169,20 +385,71 @@ export interface MergeResult {
   message: string;
 }
 
+/** What happens to issues the merged PR references with a closing keyword. */
+export type LinkedIssueAction = 'none' | 'comment' | 'close';
+
+/** The `prism.postMerge.*` settings. */
+export interface PostMergeSettings {
+  deleteRemoteBranch: boolean;
+  deleteLocalBranch: boolean;
+  updateBaseBranch: boolean;
+  linkedIssues: LinkedIssueAction;
+}
+
+export interface PostMergeStep {
+  label: string;
+  status: 'done' | 'skipped' | 'failed';
+  detail?: string;
+}
+
 export interface ConflictFile {
   filePath: string;
-  conflictMarkers: number;
+  conflictMarkers: number; // conflicting hunks; 0 for modify/delete and similar conflicts
+  conflictType?: string; // e.g. 'content', 'modify/delete', 'rename/rename'
 }
 
 // ──────────────────────────── Service Interfaces ────────────────────────────
 
-export interface IGitHubAdapter {
+export type ScmProvider = 'github' | 'gitlab';
+
+/**
+ * Provider-neutral access to a hosted repository's pull requests
+ * (GitHub pull requests, GitLab merge requests).
+ */
+export interface IScmAdapter {
+  setRepository(repository: RepositoryRef): Promise<void>;
+  getCurrentUser(): Promise<string>; // login of the signed-in account
+  getCurrentUserTeams(): Promise<string[]>; // "org/team" for each team of the signed-in account
   listOpenPRs(): Promise<PullRequest[]>;
-  getChangedFiles(prNumber: number): Promise<ChangedFile[]>;
+  listOpenPRPages(pageSize: number, sort?: PRSortOrder): AsyncIterableIterator<PullRequestPage>;
+  getChangedFiles(prNumber: number): Promise<ChangedFileList>;
   getDiff(prNumber: number, filePath: string): Promise<string>;
+  getDiffSnapshot(prNumber: number): Promise<DiffSnapshot>;
+  getFileContent(filePath: string, ref: string): Promise<string | undefined>; // undefined when the file does not exist at `ref`
+  createPR(request: NewPullRequest): Promise<PullRequest>;
+  getCommits(prNumber: number): Promise<PullRequestCommit[]>;
+  getLinkedIssues(prNumber: number): Promise<LinkedIssue[]>;
   submitReviewComment(prNumber: number, filePath: string, body: string, line: number): Promise<void>;
+  getReviewComments(prNumber: number): Promise<ReviewComment[]>; // line comments on the current diff, oldest first
+  submitReview(prNumber: number, review: ReviewSubmission): Promise<string>; // resolves to the review's web URL
   getMergeStatus(prNumber: number): Promise<MergeStatus>;
   mergePR(prNumber: number, method: MergeMethod, commitTitle?: string, commitMessage?: string): Promise<MergeResult>;
+  getHeadSha(prNumber: number): Promise<string>;
+  updateBranch(prNumber: number, method: BranchUpdateMethod, expectedHeadSha: string): Promise<MergeResult>;
+  enableAutoMerge(prNumber: number, method: MergeMethod, commitTitle?: string): Promise<MergeResult>;
+  disableAutoMerge(prNumber: number): Promise<MergeResult>;
+  getHeadFork(prNumber: number): Promise<HeadFork | undefined>; // undefined when the head branch is in the base repository
+  deleteHeadBranch(prNumber: number): Promise<boolean>; // false when already gone or the branch is in a fork
+  commentOnIssue(issueNumber: number, body: string): Promise<void>;
+  closeIssue(issueNumber: number): Promise<boolean>; // false when it was already closed
+}
+
+/** The SCM adapter the extension talks to, plus the repositories it can switch between. */
+export interface IScmRouter extends IScmAdapter {
+  getRepository(): Promise<RepositoryRef>;
+  listRepositories(): Promise<RepositoryRef[]>;
+  getActiveRepositories(): Promise<RepositoryRef[]>;
+  adapterFor(repository: RepositoryRef): Promise<IScmAdapter>;
 }
 
 export interface IDiffEngine {
@@ -196,7 +463,7 @@ export interface IRiskAnalyzer {
 export interface IReviewEngine {
   reviewChunk(chunk: DiffChunk, mode: ReviewMode): Promise<ReviewResult>;
   reviewFileChunks?(chunks: DiffChunk[], mode: ReviewMode, modelId?: string): Promise<ReviewResult[]>;
-  deepAnalyze?(prNumber: number, chunks: DiffChunk[], changedFiles: ChangedFile[], mode: ReviewMode): Promise<InDepthAnalysis>;
+  deepAnalyze?(prNumber: number | undefined, chunks: DiffChunk[], changedFiles: ChangedFile[], mode: ReviewMode): Promise<InDepthAnalysis>;
 }
 
 export interface ICopilotService {
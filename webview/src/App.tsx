@@ -8,6 +8,7 @@ const vscode = acquireVsCodeApi();
 
 interface ReviewSuggestion {
   line: number;
+  endLine?: number;
   severity: 'info' | 'warning' | 'error';
   message: string;
   patch?: string;
@@ -24,6 +25,8 @@ interface ReviewResult {
   modelUsed?: string;
 }
 
+type ReviewEvent = 'COMMENT' | 'REQUEST_CHANGES' | 'APPROVE';
+
 interface RiskReport {
   filePath: string;
   score: number;
@@ -42,6 +45,27 @@ interface PullRequest {
   createdAt: string;
 }
 
+interface LocalChanges {
+  kind: 'workingTree' | 'staged';
+  rootPath: string;
+  branch: string;
+  changedFilesCount: number;
+}
+
+interface CommitRange {
+  kind: 'range';
+  rootPath: string;
+  base: string;
+  head: string;
+  changedFilesCount: number;
+}
+
+type ReviewTarget =
+  | { kind: 'pullRequest'; pr: PullRequest }
+  | { kind: 'pullRequestFile'; prNumber: number; filePath: string }
+  | LocalChanges
+  | CommitRange;
+
 interface AnalysisCategory {
   name: string;
   score: number;
@@ -67,7 +91,7 @@ interface PRMetrics {
 }
 
 interface InDepthAnalysis {
-  prNumber: number;
+  prNumber?: number;
   overallSummary: string;
   complexityScore: number;
   qualityGrade: 'A' | 'B' | 'C' | 'D' | 'F';
@@ -81,35 +105,77 @@ interface StatusCheck {
   name: string;
   status: 'success' | 'failure' | 'pending' | 'neutral';
   description?: string;
+  conclusion?: string;
+  durationMs?: number;
+  detailsUrl?: string;
 }
 
 interface MergeStatus {
+  headSha: string;
   mergeable: boolean;
   mergeableState: 'clean' | 'dirty' | 'unstable' | 'blocked' | 'unknown';
   merged: boolean;
   mergedBy?: string;
   mergedAt?: string;
+  mergeCommitSha?: string;
   behindBy: number;
   aheadBy: number;
   allowedMethods: ('merge' | 'squash' | 'rebase')[];
   statusChecks: StatusCheck[];
+  requirements: MergeRequirements;
+  blockingReasons: string[];
+  warnings: string[];
+  conflicts?: ConflictFile[];
+  autoMergeAllowed: boolean;
+  autoMerge?: AutoMerge;
+  postMerge?: PostMergeStep[];
+}
+
+interface PostMergeStep {
+  label: string;
+  status: 'done' | 'skipped' | 'failed';
+  detail?: string;
+}
+
+interface AutoMerge {
+  method: 'merge' | 'squash' | 'rebase';
+  enabledBy?: string;
+  source: 'provider' | 'local';
+}
+
+interface ConflictFile {
+  filePath: string;
+  conflictMarkers: number;
+  conflictType?: string;
+}
+
+interface MergeRequirements {
+  requiredApprovals: number;
+  approvals: number;
+  approvedBy: string[];
+  changesRequestedBy: string[];
+  reviewRequired: boolean;
+  codeOwnerReviewRequired: boolean;
+  requiredChecks: string[];
+  requiresUpToDate: boolean;
+  canBypass: boolean;
 }
 
 type AppState =
   | { state: 'idle' }
   | { state: 'loading'; message: string }
   | { state: 'error'; errorMessage: string }
-  | { state: 'results'; pr: PullRequest; results: ReviewResult[]; riskReports: RiskReport[] }
-  | { state: 'deepAnalysis'; pr: PullRequest; analysis: InDepthAnalysis; riskReports: RiskReport[] }
-  | { state: 'multiModel'; pr: PullRequest; modelResults: { modelName: string; results: ReviewResult[] }[]; riskReports: RiskReport[] }
+  | { state: 'results'; target: ReviewTarget; results: ReviewResult[]; riskReports: RiskReport[]; warnings: string[] }
+  | { state: 'deepAnalysis'; target: ReviewTarget; analysis: InDepthAnalysis; riskReports: RiskReport[]; warnings: string[] }
+  | { state: 'multiModel'; target: ReviewTarget; modelResults: { modelName: string; results: ReviewResult[] }[]; riskReports: RiskReport[]; warnings: string[] }
   | { state: 'mergeStatus'; pr: PullRequest; mergeStatus: MergeStatus };
 
 type VSCodeMessage =
   | { command: 'loading'; data: { message: string } }
   | { command: 'error'; data: { message: string } }
-  | { command: 'updateResults'; data: { pr: PullRequest; results: ReviewResult[]; riskReports: RiskReport[] } }
-  | { command: 'updateDeepAnalysis'; data: { pr: PullRequest; analysis: InDepthAnalysis; riskReports: RiskReport[] } }
-  | { command: 'updateMultiModelResults'; data: { pr: PullRequest; modelResults: { modelName: string; results: ReviewResult[] }[]; riskReports: RiskReport[] } }
+  | { command: 'updateResults'; data: { target: ReviewTarget; results: ReviewResult[]; riskReports: RiskReport[]; warnings?: string[] } }
+  | { command: 'updateDeepAnalysis'; data: { target: ReviewTarget; analysis: InDepthAnalysis; riskReports: RiskReport[]; warnings?: string[] } }
+  | { command: 'updateMultiModelResults'; data: { target: ReviewTarget; modelResults: { modelName: string; results: ReviewResult[] }[]; riskReports: RiskReport[]; warnings?: string[] } }
   | { command: 'updateMergeStatus'; data: { pr: PullRequest; mergeStatus: MergeStatus } }
   | { command: 'refresh' };
 
@@ -137,6 +203,12 @@ const MERGE_METHOD: Record<string, { label: string; desc: string }> = {
   rebase: { label: 'Rebase & Merge',  desc: 'Linear history, no merge commit' },
 };
 
+const PUBLISH_EVENTS: { event: ReviewEvent; label: string; variant: string }[] = [
+  { event: 'COMMENT',         label: 'Comment',         variant: 'comment' },
+  { event: 'REQUEST_CHANGES', label: 'Request Changes', variant: 'changes' },
+  { event: 'APPROVE',         label: 'Approve',         variant: 'approve' },
+];
+
 const CHECK_ICON: Record<string, string> = { success: '\u2713', failure: '\u00d7', pending: '\u25cb', neutral: '\u2013' };
 
 // ──────────────────────────── Shared Components ────────────────────────────
@@ -201,6 +273,20 @@ function StatCard({ value, label, color, icon }: {
   );
 }
 
+function Notices({ warnings }: { warnings: string[] }): React.ReactElement | null {
+  if (warnings.length === 0) { return null; }
+  return (
+    <section className="section notices">
+      {warnings.map((w, i) => (
+        <div key={i} className="notice notice--warning">
+          <span className="notice-icon">!</span>
+          <span>{w}</span>
+        </div>
+      ))}
+    </section>
+  );
+}
+
 function EmptyState({ icon, text }: { icon: string; text: string }): React.ReactElement {
   return (
     <div className="empty-state">
@@ -238,11 +324,7 @@ function ErrorView({ message }: { message: string }): React.ReactElement {
 
 // ──────────────────────────── Navigation ────────────────────────────
 
-function PRHeader({ pr, currentView }: { pr: PullRequest; currentView: string }): React.ReactElement {
-  const sendAction = useCallback((action: string) => {
-    vscode.postMessage({ command: action, data: { pr } });
-  }, [pr]);
-
+function PRTitle({ pr }: { pr: PullRequest }): React.ReactElement {
   const timeAgo = useMemo(() => {
     const ms = Date.now() - new Date(pr.createdAt).getTime();
     const d = Math.floor(ms / 86400000);
@@ -252,38 +334,93 @@ function PRHeader({ pr, currentView }: { pr: PullRequest; currentView: string })
     return h > 0 ? `${h}h ago` : 'just now';
   }, [pr.createdAt]);
 
+  return (
+    <div className="header-top">
+      <span className="pr-badge">#{pr.number}</span>
+      <div className="header-info">
+        <h1 className="header-title">{pr.title}</h1>
+        <div className="header-meta">
+          {pr.author && <span className="meta-item">{pr.author}</span>}
+          {pr.headBranch && (
+            <span className="meta-item">
+              <code className="branch">{pr.headBranch}</code>
+              <span className="branch-arrow">\u2192</span>
+              <code className="branch">{pr.baseBranch}</code>
+            </span>
+          )}
+          <span className="meta-item">{pr.changedFilesCount} files</span>
+          {pr.createdAt && <span className="meta-item meta-time">{timeAgo}</span>}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function LocalTitle({ target }: { target: Exclude<ReviewTarget, { kind: 'pullRequest' }> }): React.ReactElement {
+  if (target.kind === 'pullRequestFile') {
+    return (
+      <div className="header-top">
+        <span className="pr-badge">#{target.prNumber}</span>
+        <div className="header-info">
+          <h1 className="header-title">{target.filePath}</h1>
+          <div className="header-meta"><span className="meta-item">Single file review</span></div>
+        </div>
+      </div>
+    );
+  }
+
+  const folder = target.rootPath.split(/[\\/]/).filter(Boolean).pop() ?? target.rootPath;
+  const badge = { workingTree: '\u270e', staged: '+', range: '\u2194' }[target.kind];
+  const title = { workingTree: 'Uncommitted changes', staged: 'Staged changes', range: 'Commit range' }[target.kind];
+  return (
+    <div className="header-top">
+      <span className="pr-badge">{badge}</span>
+      <div className="header-info">
+        <h1 className="header-title">{title}</h1>
+        <div className="header-meta">
+          <span className="meta-item">{folder}</span>
+          {target.kind === 'range' ? (
+            <span className="meta-item">
+              <code className="branch">{target.base}</code>
+              <span className="branch-arrow">..</span>
+              <code className="branch">{target.head}</code>
+            </span>
+          ) : (
+            <span className="meta-item"><code className="branch">{target.branch}</code></span>
+          )}
+          <span className="meta-item">{target.changedFilesCount} files</span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/** Title and actions for what the view shows; only PRs can be merged, and a single file can only be reviewed again. */
+function TargetHeader({ target, currentView }: { target: ReviewTarget; currentView: string }): React.ReactElement {
+  const sendAction = useCallback((action: string) => {
+    vscode.postMessage({ command: action, data: { target } });
+  }, [target]);
+
+  const wholeChange = target.kind !== 'pullRequestFile';
   const navItems = [
     { id: 'results',      label: 'Review',        action: 'runReview' },
-    { id: 'deepAnalysis', label: 'Deep Analysis',  action: 'runDeepAnalysis' },
-    { id: 'multiModel',   label: 'Multi-Model',    action: 'runMultiModel' },
-    { id: 'mergeStatus',  label: 'Merge',           action: 'checkMergeStatus' },
+    ...(wholeChange ? [
+      { id: 'deepAnalysis', label: 'Deep Analysis',  action: 'runDeepAnalysis' },
+      { id: 'multiModel',   label: 'Multi-Model',    action: 'runMultiModel' },
+    ] : []),
+    ...(target.kind === 'pullRequest' ? [{ id: 'mergeStatus', label: 'Merge', action: 'checkMergeStatus' }] : []),
   ];
   const utilItems = [
-    { label: 'Summary', action: 'runSummary' },
-    { label: 'Risk',    action: 'runRiskAnalysis' },
+    ...(wholeChange ? [
+      { label: 'Summary', action: 'runSummary' },
+      { label: 'Risk',    action: 'runRiskAnalysis' },
+    ] : []),
     { label: 'Model',   action: 'selectModel' },
   ];
 
   return (
     <header className="header">
-      <div className="header-top">
-        <span className="pr-badge">#{pr.number}</span>
-        <div className="header-info">
-          <h1 className="header-title">{pr.title}</h1>
-          <div className="header-meta">
-            {pr.author && <span className="meta-item">{pr.author}</span>}
-            {pr.headBranch && (
-              <span className="meta-item">
-                <code className="branch">{pr.headBranch}</code>
-                <span className="branch-arrow">\u2192</span>
-                <code className="branch">{pr.baseBranch}</code>
-              </span>
-            )}
-            <span className="meta-item">{pr.changedFilesCount} files</span>
-            {pr.createdAt && <span className="meta-item meta-time">{timeAgo}</span>}
-          </div>
-        </div>
-      </div>
+      {target.kind === 'pullRequest' ? <PRTitle pr={target.pr} /> : <LocalTitle target={target} />}
 
       <nav className="nav">
         <div className="nav-main">
@@ -384,13 +521,28 @@ function RiskTable({ reports }: { reports: RiskReport[] }): React.ReactElement {
   );
 }
 
-function SuggestionItem({ suggestion }: { suggestion: ReviewSuggestion }): React.ReactElement {
+function SuggestionItem({ suggestion, selected, onToggle }: {
+  suggestion: ReviewSuggestion;
+  selected?: boolean;
+  onToggle?: () => void;
+}): React.ReactElement {
   const [open, setOpen] = useState(false);
   return (
     <div className={`sug sug--${suggestion.severity}`}>
       <div className="sug-head">
+        {onToggle && (
+          <input
+            type="checkbox"
+            className="sug-select"
+            checked={selected}
+            onChange={onToggle}
+            title="Include in published review"
+          />
+        )}
         <span className={`sug-indicator sug-indicator--${suggestion.severity}`}>{SEVERITY_ICON[suggestion.severity]}</span>
-        <code className="sug-line">L{suggestion.line}</code>
+        <code className="sug-line">
+          L{suggestion.line}{suggestion.endLine && suggestion.endLine > suggestion.line ? `\u2013${suggestion.endLine}` : ''}
+        </code>
         <span className={`sug-level sug-level--${suggestion.severity}`}>{suggestion.severity}</span>
         {suggestion.category && <Badge variant="info" size="xs">{suggestion.category}</Badge>}
       </div>
@@ -398,7 +550,7 @@ function SuggestionItem({ suggestion }: { suggestion: ReviewSuggestion }): React
       {suggestion.patch && (
         <div className="sug-patch">
           <button className="patch-btn" onClick={() => setOpen(!open)}>
-            {open ? '\u25be Hide patch' : '\u25b8 View patch'}
+            {open ? '\u25be Hide suggested change' : '\u25b8 View suggested change'}
           </button>
           {open && <pre className="code-block"><code>{suggestion.patch}</code></pre>}
         </div>
@@ -407,7 +559,11 @@ function SuggestionItem({ suggestion }: { suggestion: ReviewSuggestion }): React
   );
 }
 
-function ReviewResultCard({ result }: { result: ReviewResult }): React.ReactElement {
+function ReviewResultCard({ result, selected, onToggle }: {
+  result: ReviewResult;
+  selected?: Set<string>;
+  onToggle?: (key: string) => void;
+}): React.ReactElement {
   const [collapsed, setCollapsed] = useState(false);
   return (
     <Card className="result-card">
@@ -429,7 +585,14 @@ function ReviewResultCard({ result }: { result: ReviewResult }): React.ReactElem
           {result.summary && <p className="result-summary">{result.summary}</p>}
           {result.suggestions.length > 0 ? (
             <div className="sug-list">
-              {result.suggestions.map((s, i) => <SuggestionItem key={i} suggestion={s} />)}
+              {result.suggestions.map((s, i) => (
+                <SuggestionItem
+                  key={i}
+                  suggestion={s}
+                  selected={selected?.has(findingKey(result, i))}
+                  onToggle={onToggle && (() => onToggle(findingKey(result, i)))}
+                />
+              ))}
             </div>
           ) : (
             <p className="no-issues">\u2713 No issues found</p>
@@ -440,17 +603,169 @@ function ReviewResultCard({ result }: { result: ReviewResult }): React.ReactElem
   );
 }
 
+function findingKey(result: ReviewResult, index: number): string {
+  return `${result.chunkId}#${index}`;
+}
+
+function PublishReview({ pr, results, selected }: {
+  pr: PullRequest; results: ReviewResult[]; selected: Set<string>;
+}): React.ReactElement {
+  const publish = useCallback((event: ReviewEvent) => {
+    const findings = results.flatMap((r) => r.suggestions
+      .filter((_, i) => selected.has(findingKey(r, i)))
+      .map((suggestion) => ({ filePath: r.filePath, suggestion })));
+    vscode.postMessage({ command: 'publishReview', data: { pr, findings, event } });
+  }, [pr, results, selected]);
+
+  return (
+    <section className="section">
+      <SectionHead title="Publish Review" badge={<Badge variant="muted" size="xs">{selected.size} selected</Badge>} />
+      <Card className="publish">
+        <p className="publish-hint">
+          Selected findings are posted as one review with line comments. Findings outside the diff are listed in the review summary.
+        </p>
+        <div className="publish-actions">
+          {PUBLISH_EVENTS.map((e) => (
+            <button
+              key={e.event}
+              className={`btn-publish btn-publish--${e.variant}`}
+              disabled={selected.size === 0}
+              onClick={() => publish(e.event)}
+            >{e.label}</button>
+          ))}
+        </div>
+      </Card>
+    </section>
+  );
+}
+
 // ──────────────────────────── Merge Status View ────────────────────────────
 
+function formatDuration(ms: number): string {
+  const sec = Math.round(ms / 1000);
+  if (sec < 60) { return `${sec}s`; }
+  const min = Math.floor(sec / 60);
+  return min < 60 ? `${min}m ${sec % 60}s` : `${Math.floor(min / 60)}h ${min % 60}m`;
+}
+
+function RequirementsPanel({ requirements: r }: { requirements: MergeRequirements }): React.ReactElement | null {
+  const hasRules = r.requiredApprovals > 0 || r.codeOwnerReviewRequired || r.requiredChecks.length > 0 || r.requiresUpToDate;
+  if (!hasRules && r.approvedBy.length === 0 && r.changesRequestedBy.length === 0) { return null; }
+  const approvalsMet = r.approvals >= r.requiredApprovals && r.changesRequestedBy.length === 0;
+  return (
+    <section className="section">
+      <SectionHead title="Requirements" />
+      <div className="checks">
+        <div className={`check check--${approvalsMet ? 'success' : 'failure'}`}>
+          <span className={`check-dot check-dot--${approvalsMet ? 'success' : 'failure'}`}>{CHECK_ICON[approvalsMet ? 'success' : 'failure']}</span>
+          <span className="check-name">Approvals {r.approvals}/{r.requiredApprovals}</span>
+          {r.approvedBy.length > 0 && <span className="check-desc">{r.approvedBy.map((u) => `@${u}`).join(', ')}</span>}
+        </div>
+        {r.changesRequestedBy.length > 0 && (
+          <div className="check check--failure">
+            <span className="check-dot check-dot--failure">{CHECK_ICON.failure}</span>
+            <span className="check-name">Changes requested</span>
+            <span className="check-desc">{r.changesRequestedBy.map((u) => `@${u}`).join(', ')}</span>
+          </div>
+        )}
+        {r.codeOwnerReviewRequired && (
+          <div className={`check check--${r.reviewRequired ? 'pending' : 'success'}`}>
+            <span className={`check-dot check-dot--${r.reviewRequired ? 'pending' : 'success'}`}>{CHECK_ICON[r.reviewRequired ? 'pending' : 'success']}</span>
+            <span className="check-name">Code owner review required</span>
+          </div>
+        )}
+        {r.requiresUpToDate && (
+          <div className="check check--neutral">
+            <span className="check-dot check-dot--neutral">{CHECK_ICON.neutral}</span>
+            <span className="check-name">Branch must be up to date with base</span>
+          </div>
+        )}
+        {r.requiredChecks.length > 0 && (
+          <div className="check check--neutral">
+            <span className="check-dot check-dot--neutral">{CHECK_ICON.neutral}</span>
+            <span className="check-name">Required checks</span>
+            <span className="check-desc">{r.requiredChecks.join(', ')}</span>
+          </div>
+        )}
+      </div>
+      {r.canBypass && <p className="merge-sub">You can bypass these requirements as an administrator.</p>}
+    </section>
+  );
+}
+
+const STEP_CHECK: Record<PostMergeStep['status'], StatusCheck['status']> = {
+  done: 'success',
+  skipped: 'neutral',
+  failed: 'failure',
+};
+
+function PostMergePanel({ steps }: { steps: PostMergeStep[] }): React.ReactElement {
+  return (
+    <section className="section">
+      <SectionHead title="After Merge" />
+      <div className="checks">
+        {steps.map((step, i) => {
+          const status = STEP_CHECK[step.status];
+          return (
+            <div key={i} className={`check check--${status}`}>
+              <span className={`check-dot check-dot--${status}`}>{CHECK_ICON[status]}</span>
+              <span className="check-name">{step.label}</span>
+              {step.detail && <span className="check-desc">{step.detail}</span>}
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
+
+function ConflictsPanel({ pr, conflicts }: { pr: PullRequest; conflicts: ConflictFile[] }): React.ReactElement {
+  const handleResolve = useCallback((filePath: string) => {
+    vscode.postMessage({ command: 'resolveConflict', data: { pr, filePath } });
+  }, [pr]);
+
+  return (
+    <section className="section">
+      <SectionHead title="Conflicting Files" badge={<Badge variant="danger" size="xs">{conflicts.length}</Badge>} />
+      <div className="conflicts">
+        {conflicts.map((c) => (
+          <div key={c.filePath} className="conflict">
+            <code className="conflict-path">{c.filePath}</code>
+            <span className="conflict-meta">
+              {c.conflictMarkers > 0
+                ? `${c.conflictMarkers} conflicting hunk${c.conflictMarkers === 1 ? '' : 's'}`
+                : c.conflictType ?? 'conflict'}
+            </span>
+            <button className="btn-secondary" onClick={() => handleResolve(c.filePath)}>Open in merge editor</button>
+          </div>
+        ))}
+      </div>
+      <p className="merge-sub">
+        Opening a file checks out {pr.headBranch ? <code className="branch">{pr.headBranch}</code> : 'the PR branch'} and
+        merges {pr.baseBranch ? <code className="branch">{pr.baseBranch}</code> : 'the base branch'} into it without committing.
+      </p>
+    </section>
+  );
+}
+
 function MergeStatusView({ pr, mergeStatus }: { pr: PullRequest; mergeStatus: MergeStatus }): React.ReactElement {
   const info = MERGE_STATE[mergeStatus.mergeableState] ?? MERGE_STATE.unknown;
   const handleMerge = useCallback(() => {
     vscode.postMessage({ command: 'mergePR', data: { pr } });
   }, [pr]);
+  const handleUpdate = useCallback((method: 'merge' | 'rebase') => {
+    vscode.postMessage({ command: 'updateBranch', data: { pr, method } });
+  }, [pr]);
+  const handleRevert = useCallback(() => {
+    vscode.postMessage({ command: 'revertPR', data: { pr } });
+  }, [pr]);
+  const handleAutoMerge = useCallback((enable: boolean) => {
+    vscode.postMessage({ command: enable ? 'enableAutoMerge' : 'cancelAutoMerge', data: { pr } });
+  }, [pr]);
 
   return (
     <div className="page">
-      <PRHeader pr={pr} currentView="mergeStatus" />
+      <TargetHeader target={{ kind: 'pullRequest', pr }} currentView="mergeStatus" />
       <section className="section">
         <SectionHead title="Merge Status" />
         {mergeStatus.merged ? (
@@ -461,25 +776,66 @@ function MergeStatusView({ pr, mergeStatus }: { pr: PullRequest; mergeStatus: Me
               <p className="merge-sub">
                 {mergeStatus.mergedBy && <>by <strong>{mergeStatus.mergedBy}</strong></>}
                 {mergeStatus.mergedAt && <> on {new Date(mergeStatus.mergedAt).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}</>}
+                {mergeStatus.mergeCommitSha && <> as <code className="branch">{mergeStatus.mergeCommitSha.slice(0, 7)}</code></>}
               </p>
             </div>
+            {mergeStatus.mergeCommitSha && (
+              <button className="btn-secondary btn-revert" onClick={handleRevert}>Revert</button>
+            )}
           </Card>
         ) : (
           <Card className={`merge-banner merge-banner--${mergeStatus.mergeableState}`} accent={info.color}>
             <div className="merge-badge" style={{ '--mc': info.color } as React.CSSProperties}>{info.icon}</div>
             <div>
               <strong style={{ color: info.color }}>{info.label}</strong>
-              {mergeStatus.mergeableState === 'dirty' && <p className="merge-sub">Resolve conflicts before merging.</p>}
+              {mergeStatus.blockingReasons.length > 0 ? (
+                <ul className="blocker-list">
+                  {mergeStatus.blockingReasons.map((r, i) => <li key={i}>{r}</li>)}
+                </ul>
+              ) : mergeStatus.mergeableState === 'dirty' && <p className="merge-sub">Resolve conflicts before merging.</p>}
+              {mergeStatus.warnings.length > 0 && (
+                <ul className="blocker-list blocker-list--warning">
+                  {mergeStatus.warnings.map((w, i) => <li key={i}>{w}</li>)}
+                </ul>
+              )}
             </div>
           </Card>
         )}
       </section>
 
+      {!mergeStatus.merged && (
+        <section className="section">
+          <div className="stats-row">
+            <StatCard value={mergeStatus.aheadBy} label="Commits ahead" color="#3fb950" icon="\u2191" />
+            <StatCard value={mergeStatus.behindBy} label="Commits behind" color={mergeStatus.behindBy > 0 ? '#e3b341' : undefined} icon="\u2193" />
+          </div>
+          {mergeStatus.behindBy > 0 && mergeStatus.mergeableState !== 'dirty' && (
+            <Card className="update-branch" accent="#e3b341">
+              <span className="update-branch-text">
+                This branch is {mergeStatus.behindBy} commit(s) behind {pr.baseBranch ? <code className="branch">{pr.baseBranch}</code> : 'its base'}.
+              </span>
+              <div className="update-branch-actions">
+                <button className="btn-secondary" onClick={() => handleUpdate('merge')}>Update with merge</button>
+                <button className="btn-secondary" onClick={() => handleUpdate('rebase')}>Update with rebase</button>
+              </div>
+            </Card>
+          )}
+        </section>
+      )}
+
+      {mergeStatus.postMerge && mergeStatus.postMerge.length > 0 && <PostMergePanel steps={mergeStatus.postMerge} />}
+
+      {!mergeStatus.merged && mergeStatus.conflicts && mergeStatus.conflicts.length > 0 && (
+        <ConflictsPanel pr={pr} conflicts={mergeStatus.conflicts} />
+      )}
+
+      {!mergeStatus.merged && <RequirementsPanel requirements={mergeStatus.requirements} />}
+
       {mergeStatus.statusChecks.length > 0 && (
         <section className="section">
           <SectionHead title="Status Checks" badge={
-            <Badge variant={mergeStatus.statusChecks.every(c => c.status === 'success') ? 'success' : 'warning'} size="xs">
-              {mergeStatus.statusChecks.filter(c => c.status === 'success').length}/{mergeStatus.statusChecks.length}
+            <Badge variant={mergeStatus.statusChecks.every(c => c.status === 'success' || c.status === 'neutral') ? 'success' : 'warning'} size="xs">
+              {mergeStatus.statusChecks.filter(c => c.status === 'success' || c.status === 'neutral').length}/{mergeStatus.statusChecks.length}
             </Badge>
           } />
           <div className="checks">
@@ -488,6 +844,8 @@ function MergeStatusView({ pr, mergeStatus }: { pr: PullRequest; mergeStatus: Me
                 <span className={`check-dot check-dot--${ck.status}`}>{CHECK_ICON[ck.status]}</span>
                 <span className="check-name">{ck.name}</span>
                 {ck.description && <span className="check-desc">{ck.description}</span>}
+                {ck.durationMs !== undefined && <span className="check-time">{formatDuration(ck.durationMs)}</span>}
+                {ck.detailsUrl && <a className="check-link" href={ck.detailsUrl}>Details</a>}
               </div>
             ))}
           </div>
@@ -505,11 +863,30 @@ function MergeStatusView({ pr, mergeStatus }: { pr: PullRequest; mergeStatus: Me
               </Card>
             ))}
           </div>
-          {mergeStatus.mergeable ? (
+          {mergeStatus.autoMerge ? (
+            <Card className="auto-merge" accent="#3fb950">
+              <span className="auto-merge-text">
+                <strong>Auto-merge enabled</strong> ({MERGE_METHOD[mergeStatus.autoMerge.method].label.toLowerCase()})
+                {mergeStatus.autoMerge.source === 'local'
+                  ? ' — PRism merges once checks pass, while this window stays open.'
+                  : ` — merges once requirements are met${mergeStatus.autoMerge.enabledBy ? `, enabled by ${mergeStatus.autoMerge.enabledBy}` : ''}.`}
+              </span>
+              <button className="btn-secondary" onClick={() => handleAutoMerge(false)}>Cancel auto-merge</button>
+            </Card>
+          ) : mergeStatus.mergeable && mergeStatus.blockingReasons.length === 0 ? (
             <button className="btn-merge" onClick={handleMerge}>Merge Pull Request</button>
+          ) : mergeStatus.mergeableState !== 'dirty' ? (
+            <div className="merge-actions">
+              <button className="btn-merge btn-merge--auto" onClick={() => handleAutoMerge(true)}>
+                {mergeStatus.autoMergeAllowed ? 'Enable Auto-Merge' : 'Merge When Checks Pass'}
+              </button>
+              {mergeStatus.requirements.canBypass && (
+                <button className="btn-merge btn-merge--bypass" onClick={handleMerge}>Merge as Administrator</button>
+              )}
+            </div>
           ) : (
             <Card className="merge-blocked" accent="#f85149">
-              <p>Cannot merge. Resolve blocking issues first.</p>
+              <p>Cannot merge until the blocking issues above are resolved.</p>
             </Card>
           )}
         </section>
@@ -576,12 +953,13 @@ function RecCard({ rec }: { rec: Recommendation }): React.ReactElement {
   );
 }
 
-function DeepAnalysisView({ pr, analysis, riskReports }: {
-  pr: PullRequest; analysis: InDepthAnalysis; riskReports: RiskReport[];
+function DeepAnalysisView({ target, analysis, riskReports, warnings }: {
+  target: ReviewTarget; analysis: InDepthAnalysis; riskReports: RiskReport[]; warnings: string[];
 }): React.ReactElement {
   return (
     <div className="page">
-      <PRHeader pr={pr} currentView="deepAnalysis" />
+      <TargetHeader target={target} currentView="deepAnalysis" />
+      <Notices warnings={warnings} />
       <section className="section">
         <div className="hero">
           <div className="hero-left">
@@ -618,8 +996,8 @@ function DeepAnalysisView({ pr, analysis, riskReports }: {
 
 // ──────────────────────────── Multi-Model ────────────────────────────
 
-function MultiModelView({ pr, modelResults, riskReports }: {
-  pr: PullRequest; modelResults: { modelName: string; results: ReviewResult[] }[]; riskReports: RiskReport[];
+function MultiModelView({ target, modelResults, riskReports, warnings }: {
+  target: ReviewTarget; modelResults: { modelName: string; results: ReviewResult[] }[]; riskReports: RiskReport[]; warnings: string[];
 }): React.ReactElement {
   const [tab, setTab] = useState(0);
   const stats = useMemo(() => modelResults.map((mr) => ({
@@ -632,7 +1010,8 @@ function MultiModelView({ pr, modelResults, riskReports }: {
 
   return (
     <div className="page">
-      <PRHeader pr={pr} currentView="multiModel" />
+      <TargetHeader target={target} currentView="multiModel" />
+      <Notices warnings={warnings} />
       <section className="section">
         <SectionHead title="Model Comparison" badge={<Badge variant="muted" size="xs">{modelResults.length} models</Badge>} />
         <div className="cmp-row">
@@ -680,8 +1059,8 @@ function MultiModelView({ pr, modelResults, riskReports }: {
 
 // ──────────────────────────── Results View ────────────────────────────
 
-function ResultsView({ pr, results, riskReports }: {
-  pr: PullRequest; results: ReviewResult[]; riskReports: RiskReport[];
+function ResultsView({ target, results, riskReports, warnings }: {
+  target: ReviewTarget; results: ReviewResult[]; riskReports: RiskReport[]; warnings: string[];
 }): React.ReactElement {
   const grouped = useMemo(() => results.reduce<Record<string, ReviewResult[]>>((acc, r) => {
     if (!acc[r.filePath]) { acc[r.filePath] = []; }
@@ -698,9 +1077,22 @@ function ResultsView({ pr, results, riskReports }: {
 
   const models = useMemo(() => [...new Set(results.map(r => r.modelUsed).filter(Boolean))], [results]);
 
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  useEffect(() => {
+    setSelected(new Set(results.flatMap((r) => r.suggestions.map((_, i) => findingKey(r, i)))));
+  }, [results]);
+  const toggle = useCallback((key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) { next.delete(key); } else { next.add(key); }
+      return next;
+    });
+  }, []);
+
   return (
     <div className="page">
-      <PRHeader pr={pr} currentView="results" />
+      <TargetHeader target={target} currentView="results" />
+      <Notices warnings={warnings} />
       <section className="section">
         <div className="stats-row">
           <StatCard value={totals.files} label="Files" icon="\u25ce" />
@@ -723,11 +1115,15 @@ function ResultsView({ pr, results, riskReports }: {
         {Object.entries(grouped).map(([fp, frs]) => (
           <div key={fp} className="file-group">
             <h3 className="file-group-title">{fp}</h3>
-            {frs.map((r) => <ReviewResultCard key={r.chunkId} result={r} />)}
+            {frs.map((r) => <ReviewResultCard key={r.chunkId} result={r} selected={selected} onToggle={toggle} />)}
           </div>
         ))}
         {results.length === 0 && <EmptyState icon="\u2713" text="No review results yet." />}
       </section>
+
+      {target.kind === 'pullRequest' && totals.errors + totals.warnings + totals.infos > 0 && (
+        <PublishReview pr={target.pr} results={results} selected={selected} />
+      )}
     </div>
   );
 }
@@ -778,11 +1174,11 @@ export function App(): React.ReactElement {
         case 'error':
           setAppState({ state: 'error', errorMessage: msg.data.message }); break;
         case 'updateResults':
-          setAppState({ state: 'results', pr: msg.data.pr, results: msg.data.results, riskReports: msg.data.riskReports }); break;
+          setAppState({ state: 'results', target: msg.data.target, results: msg.data.results, riskReports: msg.data.riskReports, warnings: msg.data.warnings ?? [] }); break;
         case 'updateDeepAnalysis':
-          setAppState({ state: 'deepAnalysis', pr: msg.data.pr, analysis: msg.data.analysis, riskReports: msg.data.riskReports }); break;
+          setAppState({ state: 'deepAnalysis', target: msg.data.target, analysis: msg.data.analysis, riskReports: msg.data.riskReports, warnings: msg.data.warnings ?? [] }); break;
         case 'updateMultiModelResults':
-          setAppState({ state: 'multiModel', pr: msg.data.pr, modelResults: msg.data.modelResults, riskReports: msg.data.riskReports }); break;
+          setAppState({ state: 'multiModel', target: msg.data.target, modelResults: msg.data.modelResults, riskReports: msg.data.riskReports, warnings: msg.data.warnings ?? [] }); break;
         case 'updateMergeStatus':
           setAppState({ state: 'mergeStatus', pr: msg.data.pr, mergeStatus: msg.data.mergeStatus }); break;
       }
@@ -795,9 +1191,9 @@ export function App(): React.ReactElement {
     case 'idle':         return <IdleView />;
     case 'loading':      return <LoadingView message={appState.message} />;
     case 'error':        return <ErrorView message={appState.errorMessage} />;
-    case 'results':      return <ResultsView pr={appState.pr} results={appState.results} riskReports={appState.riskReports} />;
-    case 'deepAnalysis': return <DeepAnalysisView pr={appState.pr} analysis={appState.analysis} riskReports={appState.riskReports} />;
-    case 'multiModel':   return <MultiModelView pr={appState.pr} modelResults={appState.modelResults} riskReports={appState.riskReports} />;
+    case 'results':      return <ResultsView target={appState.target} results={appState.results} riskReports={appState.riskReports} warnings={appState.warnings} />;
+    case 'deepAnalysis': return <DeepAnalysisView target={appState.target} analysis={appState.analysis} riskReports={appState.riskReports} warnings={appState.warnings} />;
+    case 'multiModel':   return <MultiModelView target={appState.target} modelResults={appState.modelResults} riskReports={appState.riskReports} warnings={appState.warnings} />;
     case 'mergeStatus':  return <MergeStatusView pr={appState.pr} mergeStatus={appState.mergeStatus} />;
   }
 }